@@ -4,14 +4,22 @@ import { ChatInterface } from './components/ChatInterface';
 import { TaskList } from './components/TaskList';
 import { ErrorDisplay } from './components/ErrorDisplay';
 import { ResourceManager } from './components/ResourceManager';
+import { FailedOperations } from './components/FailedOperations';
+import { ProjectDetails } from './components/ProjectDetails';
+import { ProjectNotes } from './components/ProjectNotes';
+import { ProjectSharing } from './components/ProjectSharing';
+import { ActivityFeed } from './components/ActivityFeed';
+import { ReminderList } from './components/ReminderList';
+import { UndoToast } from './components/UndoToast';
 import { useStore } from './store';
 
 function App() {
-  const { fetchProjects, selectedProject } = useStore();
+  const { fetchProjects, fetchWorkspaces, selectedProject } = useStore();
 
   useEffect(() => {
-    fetchProjects();
-  }, [fetchProjects]);
+    // Which projects to list depends on the user's workspaces
+    fetchWorkspaces().then(() => fetchProjects());
+  }, [fetchWorkspaces, fetchProjects]);
 
   return (
     <div className="flex h-screen bg-[#1C1C1C] text-white">
@@ -26,9 +34,16 @@ function App() {
           )}
         </div>
         <aside className="w-80 border-l border-gray-800 p-4 overflow-y-auto">
+          <FailedOperations />
+          <ProjectDetails key={selectedProject?.id} />
+          <ProjectNotes />
+          <ProjectSharing />
+          <ReminderList />
+          <ActivityFeed />
           <TaskList />
         </aside>
       </main>
+      <UndoToast />
       <ErrorDisplay />
     </div>
   );
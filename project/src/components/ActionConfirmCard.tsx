@@ -0,0 +1,45 @@
+import React from 'react';
+import { Check, X, Loader2, Wand2 } from 'lucide-react';
+import { ToolCall, describeToolCall } from '../lib/llmTools';
+
+interface ActionConfirmCardProps {
+  call: ToolCall;
+  isRunning: boolean;
+  onConfirm: (call: ToolCall) => void;
+  onReject: (call: ToolCall) => void;
+}
+
+export const ActionConfirmCard: React.FC<ActionConfirmCardProps> = ({ call, isRunning, onConfirm, onReject }) => (
+  <div className="flex justify-start">
+    <div className="card max-w-[70%] p-4 border-primary/30">
+      <div className="flex items-start gap-3">
+        <Wand2 className="w-5 h-5 text-[#5DADEC] flex-shrink-0 mt-0.5" />
+        <p className="text-sm text-gray-200">{describeToolCall(call)}</p>
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          type="button"
+          onClick={() => onReject(call)}
+          disabled={isRunning}
+          className="btn-secondary text-sm px-3 py-1 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <X className="w-4 h-4" />
+          Reject
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(call)}
+          disabled={isRunning}
+          className="btn-primary text-sm px-3 py-1 flex items-center gap-1"
+        >
+          {isRunning ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Check className="w-4 h-4" />
+          )}
+          Confirm
+        </button>
+      </div>
+    </div>
+  </div>
+);
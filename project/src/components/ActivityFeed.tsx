@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useStore } from '../store';
+import { ActivityLog, Task } from '../types';
+
+// Bookkeeping columns that don't mean anything to the reader
+const HIDDEN_FIELDS = new Set(['id', 'created_at', 'updated_at', 'owner_id', 'project_id', 'task_id', 'workspace_id']);
+
+const VERBS: Record<ActivityLog['action'], string> = {
+  Create: 'created',
+  Update: 'updated',
+  Delete: 'deleted'
+};
+
+const ActivityEntry: React.FC<{ entry: ActivityLog; showTask: boolean }> = ({ entry, showTask }) => {
+  const { user, projectMembers } = useStore();
+
+  const personName = (userId: string | null) => {
+    if (userId && userId === user?.id) return 'You';
+    const member = projectMembers.find(m => m.user_id === userId);
+    return member?.display_name ?? member?.email ?? 'Someone';
+  };
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return 'none';
+    if (field === 'assignee_ids' && Array.isArray(value)) {
+      return value.length > 0 ? value.map(id => personName(String(id))).join(', ') : 'nobody';
+    }
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+    return String(value);
+  };
+
+  const describeChange = (field: string): string => {
+    const from = entry.old_values?.[field];
+    const to = entry.new_values?.[field];
+    if (field === 'completed') return to ? 'marked it complete' : 'reopened it';
+    if (field === 'archived') return to ? 'archived it' : 'restored it';
+    if (field === 'deleted_at') return to ? 'moved it to the trash' : 'restored it from the trash';
+    const label = field === 'assignee_ids' ? 'assignees' : field.replace(/_/g, ' ');
+    return `${label}: ${formatValue(field, from)} → ${formatValue(field, to)}`;
+  };
+
+  const changes = entry.action === 'Update'
+    ? Object.keys(entry.new_values ?? {}).filter(field => !HIDDEN_FIELDS.has(field))
+    : [];
+  const subject = entry.entity_type === 'Task' && !showTask
+    ? 'this task'
+    : `${entry.entity_type.toLowerCase()}${entry.entity_name ? ` "${entry.entity_name}"` : ''}`;
+
+  return (
+    <li className="text-sm">
+      <p className="text-gray-300">
+        <span className="font-medium text-white">{personName(entry.actor_id)}</span>{' '}
+        {VERBS[entry.action]} {subject}
+      </p>
+      {changes.length > 0 && (
+        <ul className="text-xs text-gray-400">
+          {changes.map(field => (
+            <li key={field} className="truncate">{describeChange(field)}</li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">
+        {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+      </p>
+    </li>
+  );
+};
+
+const EntryList: React.FC<{ entries: ActivityLog[]; showTask?: boolean }> = ({ entries, showTask = true }) =>
+  entries.length === 0 ? (
+    <p className="text-xs text-gray-400">No activity yet</p>
+  ) : (
+    <ul className="space-y-3">
+      {entries.map(entry => (
+        <ActivityEntry key={entry.id} entry={entry} showTask={showTask} />
+      ))}
+    </ul>
+  );
+
+// Who changed what in the selected project, newest first
+export const ActivityFeed: React.FC = () => {
+  const { selectedProject, activity, hasMoreActivity, fetchOlderActivity } = useStore();
+  const [expanded, setExpanded] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  if (!selectedProject) return null;
+
+  const handleLoadOlder = async () => {
+    setLoadingOlder(true);
+    await fetchOlderActivity();
+    setLoadingOlder(false);
+  };
+
+  return (
+    <div className="card mb-4 p-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 w-full text-left"
+      >
+        <History className="w-4 h-4 text-gray-400" />
+        <h3 className="font-medium text-white">Activity</h3>
+      </button>
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <EntryList entries={activity} />
+          {hasMoreActivity && (
+            <button
+              onClick={handleLoadOlder}
+              disabled={loadingOlder}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-primary transition-colors disabled:opacity-50"
+            >
+              {loadingOlder && <Loader2 className="w-3 h-3 animate-spin" />}
+              Show older activity
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// One task's history; reloads whenever a new entry for it arrives in the project feed
+export const TaskActivity: React.FC<{ task: Task }> = ({ task }) => {
+  const { activity, fetchTaskActivity } = useStore();
+  const [entries, setEntries] = useState<ActivityLog[] | null>(null);
+  const latestEntryId = activity.find(entry => entry.task_id === task.id)?.id;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTaskActivity(task.id).then(rows => {
+      if (!cancelled) setEntries(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id, task.updated_at, latestEntryId, fetchTaskActivity]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <History className="w-4 h-4 text-gray-400" />
+        <h4 className="text-sm font-medium text-white">History of "{task.name}"</h4>
+      </div>
+      {entries ? (
+        <EntryList entries={entries} showTask={false} />
+      ) : (
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      )}
+    </div>
+  );
+};
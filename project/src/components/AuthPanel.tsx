@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2, LogIn, LogOut, UserCircle, UserPlus } from 'lucide-react';
+import { useStore } from '../store';
+
+type Mode = 'idle' | 'signIn' | 'createAccount' | 'setPassword';
+
+export const AuthPanel: React.FC = () => {
+  const { user, signIn, sendMagicLink, createAccount, setPassword, signOut } = useStore();
+  const [mode, setMode] = useState<Mode>('idle');
+  const [email, setEmail] = useState('');
+  const [password, setPasswordValue] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const isGuest = !user || user.is_anonymous;
+
+  const openForm = (next: Mode) => {
+    setMode(mode === next ? 'idle' : next);
+    setNotice(null);
+  };
+
+  const run = async (action: () => Promise<boolean>, success: string | null) => {
+    setBusy(true);
+    setNotice(null);
+    const succeeded = await action();
+    setBusy(false);
+    if (succeeded) {
+      setMode('idle');
+      setPasswordValue('');
+      setNotice(success);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    switch (mode) {
+      case 'signIn':
+        // Without a password we fall back to a magic link
+        if (password) {
+          run(() => signIn(email, password), null);
+        } else {
+          run(() => sendMagicLink(email), `Check ${email} for a sign-in link.`);
+        }
+        break;
+      case 'createAccount':
+        run(() => createAccount(email), `Check ${email} to confirm your account. Your projects stay with you.`);
+        break;
+      case 'setPassword':
+        run(() => setPassword(password), 'Password saved.');
+        break;
+    }
+  };
+
+  const submitLabel = {
+    idle: '',
+    signIn: password ? 'Sign in' : 'Email me a link',
+    createAccount: 'Send confirmation link',
+    setPassword: 'Save password'
+  }[mode];
+
+  return (
+    <div className="border-t border-gray-800/50 pt-4 mt-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <UserCircle className="w-5 h-5 text-gray-400 flex-shrink-0" />
+          <span className="text-sm text-gray-300 truncate">{isGuest ? 'Guest' : user.email}</span>
+        </div>
+        <div className="flex gap-1 flex-shrink-0">
+          {isGuest ? (
+            <>
+              <button
+                onClick={() => openForm('createAccount')}
+                className="p-1 text-gray-400 hover:text-primary transition-colors"
+                title="Create account"
+              >
+                <UserPlus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => openForm('signIn')}
+                className="p-1 text-gray-400 hover:text-primary transition-colors"
+                title="Sign in"
+              >
+                <LogIn className="w-4 h-4" />
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => openForm('setPassword')}
+                className="p-1 text-gray-400 hover:text-primary transition-colors"
+                title="Set password"
+              >
+                <KeyRound className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => signOut()}
+                className="p-1 text-gray-400 hover:text-red-300 transition-colors"
+                title="Sign out"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isGuest && user?.new_email && mode === 'idle' && !notice && (
+        <p className="text-xs text-gray-400 mt-2">Waiting for you to confirm {user.new_email}.</p>
+      )}
+
+      {notice && <p className="text-xs text-gray-400 mt-2">{notice}</p>}
+
+      {mode !== 'idle' && (
+        <form onSubmit={handleSubmit} className="mt-3 space-y-2">
+          {mode !== 'setPassword' && (
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              className="input w-full text-sm"
+              required
+            />
+          )}
+          {(mode === 'signIn' || mode === 'setPassword') && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPasswordValue(e.target.value)}
+              placeholder={mode === 'signIn' ? 'Password (optional)' : 'New password'}
+              className="input w-full text-sm"
+              minLength={6}
+              required={mode === 'setPassword'}
+            />
+          )}
+          {mode === 'signIn' && isGuest && (
+            <p className="text-xs text-gray-500">
+              Signing in switches accounts. To keep what you made as a guest, create an account instead.
+            </p>
+          )}
+          <button type="submit" disabled={busy} className="btn-primary w-full text-sm flex items-center justify-center gap-2">
+            {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+            {submitLabel}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, X, Loader2, ArrowRight, FileText, Link, Image, Edit, Folder, Mic, Volume2, VolumeX } from 'lucide-react';
+import { Send, Square, Loader2, ArrowRight, FileText, Link, Image, Edit, Folder, Mic, Volume2, VolumeX } from 'lucide-react';
 import { useStore } from '../store';
-import { Task } from '../types';
-import { parse } from 'date-fns';
-import { parseCommand, generateSuggestions } from '../lib/commandParser';
+import { Message } from '../types';
+import { parseCommand, generateSuggestions, ParsedCommand } from '../lib/commandParser';
+import { executeCommand, executeToolCall } from '../lib/commandExecutor';
 import { LLMService } from '../lib/llm';
+import { ToolCall } from '../lib/llmTools';
 import { transcribeAudio, stopTranscription } from '../lib/speechClient';
 import { getCachedSpeech, SynthesisConfig } from '../lib/textToSpeechClient';
+import { ActionConfirmCard } from './ActionConfirmCard';
 
 const llmService = new LLMService();
 
@@ -20,6 +22,10 @@ export const ChatInterface: React.FC = () => {
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(null);
+  const [pendingToolCalls, setPendingToolCalls] = useState<ToolCall[]>([]);
+  const [runningToolCallId, setRunningToolCallId] = useState<string | null>(null);
+  // Set while an assistant reply is in flight so it can be stopped
+  const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [voiceConfig, setVoiceConfig] = useState<SynthesisConfig>({
     languageCode: 'en-US',
     ssmlGender: 'NEUTRAL',
@@ -35,31 +41,54 @@ export const ChatInterface: React.FC = () => {
   
   const { 
     messages, 
+    hasMoreMessages,
+    unsavedMessageIds,
     addMessage, 
+    updateMessage,
+    fetchMessages,
+    fetchOlderMessages,
     selectedProject, 
-    createTask, 
-    updateTask,
-    deleteTask,
+    setSelectedProject,
+    createProject,
     createNote,
     tasks,
     projects,
-    fetchTasks,
     setError,
-    createResource
+    createResource,
+    projectMembers,
+    user
   } = useStore();
 
+  // Each project keeps its own thread; the assistant picks up where it left off.
+  // Signing in as someone else swaps in their thread.
+  const userId = user?.id;
+  useEffect(() => {
+    const projectId = selectedProject?.id ?? null;
+    let cancelled = false;
+    setPendingToolCalls([]);
+    fetchMessages(projectId).then(history => {
+      if (!cancelled) llmService.restoreHistory(history);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProject?.id, userId, fetchMessages]);
+
   useEffect(() => {
     if (selectedProject) {
       llmService.setProjectContext({
         currentProject: selectedProject,
-        recentTasks: tasks.slice(0, 5)
+        tasks,
+        team: projectMembers
       });
     }
-  }, [selectedProject, tasks]);
+  }, [selectedProject, tasks, projectMembers]);
 
+  // Follow new and streaming messages, but stay put when earlier ones are loaded above
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [lastMessage, pendingToolCalls]);
 
   useEffect(() => {
     if (input.trim()) {
@@ -78,6 +107,10 @@ export const ChatInterface: React.FC = () => {
     }
   }, [input]);
 
+  useEffect(() => {
+    return () => abortController?.abort();
+  }, [abortController]);
+
   useEffect(() => {
     return () => {
       if (currentAudio) {
@@ -132,6 +165,45 @@ export const ChatInterface: React.FC = () => {
     }
   };
 
+  const processCommand = async (command: ParsedCommand) => {
+    const result = await executeCommand(command);
+    addMessage({
+      type: 'assistant',
+      content: result.content,
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  const handleConfirmToolCall = async (call: ToolCall) => {
+    setRunningToolCallId(call.id);
+    try {
+      const result = await executeToolCall(call);
+      llmService.recordToolResult(call.id, result.error ? `Failed: ${result.content}` : result.content);
+      addMessage({
+        type: 'assistant',
+        content: result.content,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('Error running assistant action:', error);
+      llmService.recordToolResult(call.id, 'Failed: an unexpected error occurred.');
+      setError('Failed to run the requested action');
+    } finally {
+      setRunningToolCallId(null);
+      setPendingToolCalls(prev => prev.filter(c => c.id !== call.id));
+    }
+  };
+
+  const handleRejectToolCall = (call: ToolCall) => {
+    llmService.recordToolResult(call.id, 'The user rejected this action, so it was not run.');
+    setPendingToolCalls(prev => prev.filter(c => c.id !== call.id));
+    addMessage({
+      type: 'assistant',
+      content: 'Okay, I won\'t do that.',
+      timestamp: new Date().toISOString(),
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isProcessing) return;
@@ -145,21 +217,74 @@ export const ChatInterface: React.FC = () => {
       timestamp: new Date().toISOString(),
     });
 
-    const command = parseCommand(input);
+    const command = parseCommand(input, projects);
     
     try {
       if (command.type === 'unknown') {
-        const response = await llmService.processMessage(input);
+        // Unanswered proposals are dropped; the LLM service tells the model they were skipped
+        setPendingToolCalls([]);
+        const controller = new AbortController();
+        setAbortController(controller);
+
+        // The reply bubble is created on the first token and grows as the rest arrive
+        let streamingMessageId: string | null = null;
+        let streamed = '';
+        const response = await llmService.processMessage(input, {
+          signal: controller.signal,
+          onToken: token => {
+            streamed += token;
+            if (streamingMessageId) {
+              updateMessage(streamingMessageId, { content: streamed });
+            } else {
+              streamingMessageId = addMessage({
+                type: 'assistant',
+                content: streamed,
+                timestamp: new Date().toISOString(),
+                status: 'streaming',
+              });
+            }
+          }
+        });
         
         if (response.error) {
           setError(response.error);
         }
 
-        addMessage({
-          type: 'assistant',
-          content: response.content,
-          timestamp: new Date().toISOString(),
-        });
+        const reply = {
+          content: response.aborted ? response.content || 'Response stopped.' : response.content,
+          status: response.aborted ? 'stopped' as const : undefined,
+        };
+        if (streamingMessageId) {
+          updateMessage(streamingMessageId, reply);
+        } else {
+          addMessage({
+            type: 'assistant',
+            ...reply,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (response.projectToCreate) {
+          const { row: project } = await createProject(response.projectToCreate);
+          if (project) {
+            await setSelectedProject(project);
+            addMessage({
+              type: 'assistant',
+              content: `Your project "${project.name}" is ready. Want to add some tasks to it?`,
+              timestamp: new Date().toISOString(),
+            });
+          } else {
+            addMessage({
+              type: 'assistant',
+              content: `I couldn't create "${response.projectToCreate.name}". Please try again.`,
+              timestamp: new Date().toISOString(),
+            });
+          }
+        }
+
+        if (response.toolCalls) {
+          setPendingToolCalls(response.toolCalls);
+        }
 
         if (response.suggestedCommand) {
           addMessage({
@@ -178,6 +303,7 @@ export const ChatInterface: React.FC = () => {
         timestamp: new Date().toISOString(),
       });
     } finally {
+      setAbortController(null);
       setInput('');
       setSuggestions([]);
       setSelectedSuggestion(-1);
@@ -186,6 +312,10 @@ export const ChatInterface: React.FC = () => {
     }
   };
 
+  const handleStop = () => {
+    abortController?.abort();
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, type: 'File' | 'Image') => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -360,7 +490,16 @@ export const ChatInterface: React.FC = () => {
         }`}
       >
         {message.content}
-        {message.type === 'assistant' && (
+        {message.status === 'streaming' && (
+          <span className="inline-block w-2 h-4 ml-1 align-middle bg-gray-400 animate-pulse" />
+        )}
+        {message.status === 'stopped' && (
+          <span className="block mt-1 text-xs text-gray-500">Stopped</span>
+        )}
+        {unsavedMessageIds.includes(message.id) && (
+          <span className="block mt-1 text-xs text-gray-500">Not saved yet</span>
+        )}
+        {message.type === 'assistant' && message.status !== 'streaming' && (
           <button
             onClick={() => isPlaying ? stopPlayback() : playMessage(message.content)}
             className="absolute -right-10 top-1/2 -translate-y-1/2 p-2 rounded-full bg-gray-800/50 
@@ -382,7 +521,27 @@ export const ChatInterface: React.FC = () => {
   return (
     <div className="flex flex-col h-full">
       <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {hasMoreMessages && (
+          <div className="flex justify-center">
+            <button
+              type="button"
+              onClick={() => fetchOlderMessages()}
+              className="text-sm text-gray-400 hover:text-[#5DADEC] transition-colors"
+            >
+              Load earlier messages
+            </button>
+          </div>
+        )}
         {messages.map((message, index) => renderMessage(message, index))}
+        {pendingToolCalls.map(call => (
+          <ActionConfirmCard
+            key={call.id}
+            call={call}
+            isRunning={runningToolCallId === call.id}
+            onConfirm={handleConfirmToolCall}
+            onReject={handleRejectToolCall}
+          />
+        ))}
         <div ref={messagesEndRef} />
       </div>
 
@@ -435,19 +594,30 @@ export const ChatInterface: React.FC = () => {
                 )}
               </div>
             </div>
-            <button
-              type="submit"
-              className={`btn-primary self-end h-[50px] w-[50px] flex items-center justify-center ${
-                isProcessing ? 'opacity-50 cursor-not-allowed' : ''
-              }`}
-              disabled={isProcessing}
-            >
-              {isProcessing ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <Send className="w-5 h-5" />
-              )}
-            </button>
+            {abortController ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                className="btn-secondary self-end h-[50px] w-[50px] flex items-center justify-center"
+                title="Stop"
+              >
+                <Square className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className={`btn-primary self-end h-[50px] w-[50px] flex items-center justify-center ${
+                  isProcessing ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+                disabled={isProcessing}
+              >
+                {isProcessing ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Send className="w-5 h-5" />
+                )}
+              </button>
+            )}
           </div>
 
           <div className="flex items-center gap-2 pt-2 border-t border-gray-800/50">
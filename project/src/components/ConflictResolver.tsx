@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { FailedOperation } from '../lib/offlineQueue';
+
+interface ConflictResolverProps {
+  operation: FailedOperation;
+  onDone: () => void;
+}
+
+type Choice = 'mine' | 'theirs';
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({ operation, onDone }) => {
+  const { resolveConflict } = useStore();
+  const server = operation.conflict ?? {};
+  const fields = Object.keys(operation.data).filter(
+    field => field !== 'id' && operation.data[field] !== server[field]
+  );
+  const [choices, setChoices] = useState<Record<string, Choice>>(
+    Object.fromEntries(fields.map(field => [field, 'mine']))
+  );
+
+  const resolve = (resolution: Record<string, Choice>) => {
+    resolveConflict(operation.id, resolution);
+    onDone();
+  };
+
+  const everyField = (choice: Choice) => Object.fromEntries(fields.map(field => [field, choice]));
+
+  return (
+    <div className="mt-3 space-y-3">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left font-normal pb-1">Field</th>
+            <th className="text-left font-normal pb-1">Mine</th>
+            <th className="text-left font-normal pb-1">Theirs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => (
+            <tr key={field} className="align-top">
+              <td className="pr-2 py-1 text-gray-300">{field.replace('_', ' ')}</td>
+              {(['mine', 'theirs'] as const).map(choice => (
+                <td key={choice} className="pr-2 py-1">
+                  <label className="flex items-start gap-1 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`${operation.id}-${field}`}
+                      checked={choices[field] === choice}
+                      onChange={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+                      className="mt-0.5"
+                    />
+                    <span className="text-gray-200 break-words">
+                      {formatValue(choice === 'mine' ? operation.data[field] : server[field])}
+                    </span>
+                  </label>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex justify-end gap-2">
+        <button onClick={() => resolve(everyField('theirs'))} className="btn-secondary text-xs px-2 py-1">
+          Keep theirs
+        </button>
+        <button onClick={() => resolve(everyField('mine'))} className="btn-secondary text-xs px-2 py-1">
+          Keep mine
+        </button>
+        <button onClick={() => resolve(choices)} className="btn-primary text-xs px-2 py-1">
+          Merge
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AlertTriangle, GitMerge, RotateCcw, Trash2 } from 'lucide-react';
+import { useStore } from '../store';
+import { FailedOperation } from '../lib/offlineQueue';
+import { ConflictResolver } from './ConflictResolver';
+
+const describeOperation = (operation: FailedOperation) => {
+  const action = operation.type.charAt(0).toUpperCase() + operation.type.slice(1);
+  const rawName = operation.data?.name ?? (operation.previous as { name?: string } | undefined)?.name;
+  const name = rawName ? ` "${rawName}"` : '';
+  return `${action} ${operation.entity}${name}`;
+};
+
+export const FailedOperations: React.FC = () => {
+  const { failedOperations, retryFailedOperation, discardFailedOperation } = useStore();
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  if (failedOperations.length === 0) return null;
+
+  return (
+    <div className="card mb-4 p-4 bg-red-900/30 border-red-500/30">
+      <div className="flex items-center gap-2 mb-3">
+        <AlertTriangle className="w-5 h-5 text-red-300" />
+        <h3 className="font-medium text-white">Changes that didn't sync</h3>
+      </div>
+      <ul className="space-y-3">
+        {failedOperations.map(operation => (
+          <li key={operation.id} className="text-sm">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-gray-200 truncate">{describeOperation(operation)}</p>
+                <p className="text-xs text-gray-400">{operation.error}</p>
+              </div>
+              {operation.conflict ? (
+                <button
+                  onClick={() => setResolvingId(resolvingId === operation.id ? null : operation.id)}
+                  className="p-1 text-gray-400 hover:text-[#5DADEC] transition-colors flex-shrink-0"
+                  title="Resolve"
+                >
+                  <GitMerge className="w-4 h-4" />
+                </button>
+              ) : (
+                <div className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => retryFailedOperation(operation.id)}
+                    className="p-1 text-gray-400 hover:text-[#5DADEC] transition-colors"
+                    title="Retry"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => discardFailedOperation(operation.id)}
+                    className="p-1 text-gray-400 hover:text-red-300 transition-colors"
+                    title="Discard"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+            {resolvingId === operation.id && (
+              <ConflictResolver operation={operation} onDone={() => setResolvingId(null)} />
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { WorkspaceRole } from '../types';
+
+interface Member {
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+}
+
+interface MemberListProps<R extends WorkspaceRole> {
+  members: Member[];
+  // Roles that can be granted from the invite form
+  roles: R[];
+  canManage: boolean;
+  currentUserId?: string;
+  onAdd: (email: string, role: R) => Promise<boolean>;
+  onRemove: (userId: string) => void;
+}
+
+// Shared by workspace membership and project sharing
+export const MemberList = <R extends WorkspaceRole>({
+  members,
+  roles,
+  canManage,
+  currentUserId,
+  onAdd,
+  onRemove
+}: MemberListProps<R>) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<R>(roles[roles.length - 1]);
+  const [adding, setAdding] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    setAdding(true);
+    if (await onAdd(email.trim(), role)) {
+      setEmail('');
+    }
+    setAdding(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      {members.length === 0 ? (
+        <p className="text-xs text-gray-400">Not shared with anyone yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {members.map((member) => (
+            <li key={member.user_id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-gray-300 truncate">
+                {member.email ?? 'Unknown'}
+                {member.user_id === currentUserId && ' (you)'}
+              </span>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <span className="text-xs text-gray-400 capitalize">{member.role}</span>
+                {(canManage || member.user_id === currentUserId) && member.role !== 'owner' && (
+                  <button
+                    onClick={() => onRemove(member.user_id)}
+                    className="p-1 text-gray-400 hover:text-red-300 transition-colors"
+                    title={member.user_id === currentUserId ? 'Leave' : 'Remove'}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleSubmit} className="flex gap-1">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            className="input flex-1 min-w-0 text-sm px-2 py-1"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as R)}
+            className="text-sm bg-gray-800 border border-gray-700 rounded px-1 py-1 text-gray-300"
+          >
+            {roles.map((option) => (
+              <option key={option} value={option}>
+                {option.charAt(0).toUpperCase() + option.slice(1)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={adding}
+            className="p-1 text-gray-400 hover:text-primary transition-colors disabled:opacity-50"
+            title="Add"
+          >
+            {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
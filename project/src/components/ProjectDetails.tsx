@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Archive, Calendar, Edit2, FolderOpen, RotateCcw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useStore } from '../store';
+import { Project } from '../types';
+import { ProjectForm, ProjectFormValues } from './ProjectForm';
+
+const formatDay = (day: string | null) => (day ? format(parseISO(day), 'MMM d, yyyy') : 'Not set');
+
+export const ProjectDetails: React.FC = () => {
+  const { selectedProject, projects, projectRole, updateProject, archiveProject, unarchiveProject } = useStore();
+  const [editing, setEditing] = useState(false);
+
+  if (!selectedProject) return null;
+
+  const canEdit = projectRole !== 'viewer';
+  const takenNames = projects.filter((p) => p.id !== selectedProject.id).map((p) => p.name);
+
+  // Only changed fields are sent, so undo and the activity feed show just the edit
+  const handleSave = async (values: ProjectFormValues) => {
+    const changes = Object.fromEntries(
+      Object.entries(values).filter(([field, value]) => selectedProject[field as keyof Project] !== value)
+    ) as Partial<Project>;
+    if (Object.keys(changes).length > 0) {
+      const { error } = await updateProject(selectedProject.id, changes);
+      if (error) return false;
+    }
+    setEditing(false);
+    return true;
+  };
+
+  const handleArchive = async () => {
+    if (window.confirm(`Archive "${selectedProject.name}"? You can restore it from the Archived list.`)) {
+      await archiveProject(selectedProject.id);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="card mb-4 p-4">
+        <h3 className="font-medium text-white mb-3">Edit project</h3>
+        <ProjectForm
+          key={selectedProject.id}
+          project={selectedProject}
+          takenNames={takenNames}
+          submitLabel="Save"
+          onSubmit={handleSave}
+          onCancel={() => setEditing(false)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="card mb-4 p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <FolderOpen className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <h3 className="font-medium text-white truncate">{selectedProject.name}</h3>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <button
+              onClick={() => setEditing(true)}
+              className="p-1 text-gray-400 hover:text-primary transition-colors"
+              title="Edit"
+            >
+              <Edit2 className="w-4 h-4" />
+            </button>
+            {selectedProject.archived ? (
+              <button
+                onClick={() => unarchiveProject(selectedProject.id)}
+                className="p-1 text-gray-400 hover:text-primary transition-colors"
+                title="Restore"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={handleArchive}
+                className="p-1 text-gray-400 hover:text-primary transition-colors"
+                title="Archive"
+              >
+                <Archive className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {selectedProject.archived && (
+        <p className="text-xs text-yellow-300 mb-2">This project is archived.</p>
+      )}
+      {selectedProject.description && (
+        <p className="text-sm text-gray-300 mb-3 whitespace-pre-wrap">{selectedProject.description}</p>
+      )}
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-2 text-sm">
+        <dt className="text-gray-400">Phase</dt>
+        <dd className="text-gray-200">{selectedProject.phase}</dd>
+        <dt className="text-gray-400">Priority</dt>
+        <dd className="text-gray-200">{selectedProject.priority}</dd>
+        <dt className="text-gray-400">Timeline</dt>
+        <dd className="text-gray-200">{selectedProject.timeline_type}</dd>
+        <dt className="flex items-center gap-1 text-gray-400">
+          <Calendar className="w-3 h-3" />
+          Start
+        </dt>
+        <dd className="text-gray-200">{formatDay(selectedProject.start_date)}</dd>
+        <dt className="flex items-center gap-1 text-gray-400">
+          <Calendar className="w-3 h-3" />
+          Target
+        </dt>
+        <dd className="text-gray-200">{formatDay(selectedProject.target_date)}</dd>
+      </dl>
+    </div>
+  );
+};
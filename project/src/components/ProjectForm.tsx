@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Project } from '../types';
+
+export type ProjectFormValues = Pick<
+  Project,
+  'name' | 'description' | 'phase' | 'priority' | 'timeline_type' | 'start_date' | 'target_date'
+>;
+
+type FormErrors = Partial<Record<keyof ProjectFormValues, string>>;
+
+const PHASES: Project['phase'][] = ['Planning', 'In Progress', 'On Hold', 'Completed', 'Ongoing'];
+const PRIORITIES: Project['priority'][] = ['High', 'Medium', 'Low'];
+const TIMELINES: Project['timeline_type'][] = ['No Timeline', 'Flexible', 'Strict'];
+
+const MAX_NAME_LENGTH = 100;
+
+const EMPTY_PROJECT: ProjectFormValues = {
+  name: '',
+  description: null,
+  phase: 'Planning',
+  priority: 'Medium',
+  timeline_type: 'Flexible',
+  start_date: null,
+  target_date: null
+};
+
+// Chat commands find projects by name, so names have to tell projects apart
+function validate(values: ProjectFormValues, takenNames: string[], project?: Project): FormErrors {
+  const errors: FormErrors = {};
+  const name = values.name.trim();
+
+  if (!name) {
+    errors.name = 'Give the project a name.';
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.name = `Keep the name under ${MAX_NAME_LENGTH} characters.`;
+  } else if (takenNames.some((taken) => taken.toLowerCase() === name.toLowerCase())) {
+    errors.name = 'Another project already has this name.';
+  }
+
+  if (values.start_date && values.target_date && values.target_date < values.start_date) {
+    errors.target_date = "The target date can't be before the start date.";
+  }
+  // Chat can create strict projects without a target date; those stay editable
+  // until their timeline or dates are touched
+  const timelineChanged =
+    !project || values.timeline_type !== project.timeline_type || values.target_date !== project.target_date;
+  if (timelineChanged && values.timeline_type === 'Strict' && !values.target_date) {
+    errors.target_date = 'A strict timeline needs a target date.';
+  }
+  return errors;
+}
+
+interface ProjectFormProps {
+  project?: Project;
+  // Names of the other projects, which this one can't reuse
+  takenNames: string[];
+  submitLabel: string;
+  // Resolves to false when saving failed, keeping the form open
+  onSubmit: (values: ProjectFormValues) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+export const ProjectForm: React.FC<ProjectFormProps> = ({ project, takenNames, submitLabel, onSubmit, onCancel }) => {
+  const [values, setValues] = useState<ProjectFormValues>(() => {
+    if (!project) return EMPTY_PROJECT;
+    const { name, description, phase, priority, timeline_type, start_date, target_date } = project;
+    return { name, description, phase, priority, timeline_type, start_date, target_date };
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  const setField = <K extends keyof ProjectFormValues>(field: K, value: ProjectFormValues[K]) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const found = validate(values, takenNames, project);
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+
+    setSaving(true);
+    const saved = await onSubmit({
+      ...values,
+      name: values.name.trim(),
+      description: values.description?.trim() || null
+    });
+    if (!saved) setSaving(false);
+  };
+
+  const selectClass = 'w-full text-sm bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300';
+  const fieldError = (field: keyof ProjectFormValues) =>
+    errors[field] && <p className="mt-1 text-xs text-red-300">{errors[field]}</p>;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" noValidate>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Name</label>
+        <input
+          type="text"
+          value={values.name}
+          onChange={(e) => setField('name', e.target.value)}
+          className="input w-full text-sm"
+          autoFocus
+        />
+        {fieldError('name')}
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Description</label>
+        <textarea
+          value={values.description ?? ''}
+          onChange={(e) => setField('description', e.target.value)}
+          rows={3}
+          className="input w-full text-sm resize-none"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Phase</label>
+          <select
+            value={values.phase}
+            onChange={(e) => setField('phase', e.target.value as Project['phase'])}
+            className={selectClass}
+          >
+            {PHASES.map((phase) => <option key={phase} value={phase}>{phase}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Priority</label>
+          <select
+            value={values.priority}
+            onChange={(e) => setField('priority', e.target.value as Project['priority'])}
+            className={selectClass}
+          >
+            {PRIORITIES.map((priority) => <option key={priority} value={priority}>{priority}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Timeline</label>
+        <select
+          value={values.timeline_type}
+          onChange={(e) => setField('timeline_type', e.target.value as Project['timeline_type'])}
+          className={selectClass}
+        >
+          {TIMELINES.map((timeline) => <option key={timeline} value={timeline}>{timeline}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Start date</label>
+          <input
+            type="date"
+            value={values.start_date ?? ''}
+            onChange={(e) => setField('start_date', e.target.value || null)}
+            className="input w-full text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Target date</label>
+          <input
+            type="date"
+            value={values.target_date ?? ''}
+            onChange={(e) => setField('target_date', e.target.value || null)}
+            className="input w-full text-sm"
+          />
+        </div>
+      </div>
+      {fieldError('target_date')}
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+        <button type="submit" disabled={saving} className="btn-primary text-sm flex items-center gap-2">
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
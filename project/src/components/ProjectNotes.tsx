@@ -0,0 +1,47 @@
+import React from 'react';
+import { StickyNote, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useStore } from '../store';
+
+export const ProjectNotes: React.FC = () => {
+  const { selectedProject, notes, projectRole, deleteNote } = useStore();
+
+  if (!selectedProject) return null;
+
+  const canEdit = projectRole !== 'viewer';
+  const projectNotes = notes.filter((note) => note.project_id === selectedProject.id);
+
+  return (
+    <div className="card mb-4 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <StickyNote className="w-4 h-4 text-gray-400" />
+        <h3 className="font-medium text-white">Notes</h3>
+      </div>
+      {projectNotes.length === 0 ? (
+        <p className="text-xs text-gray-400">No notes yet</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {projectNotes.map((note) => (
+            <li key={note.id} className="flex items-start justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <p className="text-gray-300 whitespace-pre-wrap break-words">{note.content}</p>
+                <p className="text-xs text-gray-500">
+                  {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
+                </p>
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => deleteNote(note.id)}
+                  className="p-1 text-gray-400 hover:text-red-300 transition-colors flex-shrink-0"
+                  title="Move to trash"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
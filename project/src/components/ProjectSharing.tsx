@@ -0,0 +1,35 @@
+import React from 'react';
+import { Eye, Share2 } from 'lucide-react';
+import { useStore } from '../store';
+import { MemberList } from './MemberList';
+
+export const ProjectSharing: React.FC = () => {
+  const { selectedProject, projectShares, projectRole, user, shareProject, unshareProject } = useStore();
+
+  if (!selectedProject) return null;
+
+  return (
+    <div className="card mb-4 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Share2 className="w-4 h-4 text-gray-400" />
+          <h3 className="font-medium text-white">Sharing</h3>
+        </div>
+        {projectRole === 'viewer' && (
+          <span className="flex items-center gap-1 text-xs text-gray-400">
+            <Eye className="w-3 h-3" />
+            View only
+          </span>
+        )}
+      </div>
+      <MemberList
+        members={projectShares}
+        roles={['editor', 'viewer']}
+        canManage={projectRole === 'owner'}
+        currentUserId={user?.id}
+        onAdd={shareProject}
+        onRemove={unshareProject}
+      />
+    </div>
+  );
+};
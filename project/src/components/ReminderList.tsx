@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { Bell, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useStore } from '../store';
+import { Reminder } from '../types';
+
+export const ReminderList: React.FC = () => {
+  const { selectedProject, tasks, notes, reminders, projectRole, fetchReminders, deleteReminder } = useStore();
+
+  useEffect(() => {
+    fetchReminders();
+  }, [fetchReminders]);
+
+  if (!selectedProject) return null;
+
+  const canEdit = projectRole !== 'viewer';
+
+  // Reminders hang off the project itself or off one of its tasks or notes
+  const linkedName = ({ linked_entity_type, linked_entity_id }: Reminder): string | undefined => {
+    switch (linked_entity_type) {
+      case 'Project':
+        return linked_entity_id === selectedProject.id ? selectedProject.name : undefined;
+      case 'Task':
+        return tasks.find((task) => task.id === linked_entity_id && task.project_id === selectedProject.id)?.name;
+      case 'Note':
+        return notes.find((note) => note.id === linked_entity_id && note.project_id === selectedProject.id)?.content;
+    }
+  };
+  const projectReminders = reminders.filter((reminder) => linkedName(reminder) !== undefined);
+
+  return (
+    <div className="card mb-4 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Bell className="w-4 h-4 text-gray-400" />
+        <h3 className="font-medium text-white">Reminders</h3>
+      </div>
+      {projectReminders.length === 0 ? (
+        <p className="text-xs text-gray-400">No reminders set</p>
+      ) : (
+        <ul className="space-y-2">
+          {projectReminders.map((reminder) => (
+            <li key={reminder.id} className="flex items-start justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <p className="text-gray-300 truncate">{reminder.message ?? linkedName(reminder)}</p>
+                <p className="text-xs text-gray-500">
+                  {format(parseISO(reminder.reminder_date), 'MMM d, yyyy h:mm a')}
+                </p>
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => deleteReminder(reminder.id)}
+                  className="p-1 text-gray-400 hover:text-red-300 transition-colors flex-shrink-0"
+                  title="Move to trash"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
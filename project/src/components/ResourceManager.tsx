@@ -22,7 +22,8 @@ const SUPPORTED_FILE_TYPES = {
 };
 
 export const ResourceManager: React.FC<ResourceManagerProps> = ({ projectId, taskId }) => {
-  const { createResource, deleteResource, resources, fetchResources } = useStore();
+  const { createResource, deleteResource, resources, fetchResources, projectRole } = useStore();
+  const readOnly = projectRole === 'viewer';
   const [url, setUrl] = useState('');
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -158,12 +159,14 @@ export const ResourceManager: React.FC<ResourceManagerProps> = ({ projectId, tas
               >
                 <ExternalLink className="w-4 h-4" />
               </button>
-              <button
-                onClick={() => handleDelete(resource.id)}
-                className="p-2 rounded-full bg-gray-800/50 hover:bg-red-600/50 text-white transition-colors"
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
+              {!readOnly && (
+                <button
+                  onClick={() => handleDelete(resource.id)}
+                  className="p-2 rounded-full bg-gray-800/50 hover:bg-red-600/50 text-white transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
             </div>
           </div>
         );
@@ -181,12 +184,14 @@ export const ResourceManager: React.FC<ResourceManagerProps> = ({ projectId, tas
                 {resource.url}
               </a>
             </div>
-            <button
-              onClick={() => handleDelete(resource.id)}
-              className="p-2 rounded-full hover:bg-gray-700 text-gray-400 hover:text-red-400 transition-colors"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+            {!readOnly && (
+              <button
+                onClick={() => handleDelete(resource.id)}
+                className="p-2 rounded-full hover:bg-gray-700 text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
           </div>
         );
       case 'File':
@@ -198,12 +203,14 @@ export const ResourceManager: React.FC<ResourceManagerProps> = ({ projectId, tas
                 {resource.file_path?.split('/').pop()}
               </span>
             </div>
-            <button
-              onClick={() => handleDelete(resource.id)}
-              className="p-2 rounded-full hover:bg-gray-700 text-gray-400 hover:text-red-400 transition-colors"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+            {!readOnly && (
+              <button
+                onClick={() => handleDelete(resource.id)}
+                className="p-2 rounded-full hover:bg-gray-700 text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
           </div>
         );
     }
@@ -222,64 +229,68 @@ export const ResourceManager: React.FC<ResourceManagerProps> = ({ projectId, tas
       )}
 
       <div className="space-y-4">
-        {/* URL Input */}
-        <form onSubmit={handleUrlSubmit} className="flex gap-2">
-          <input
-            type="text"
-            value={url}
-            onChange={(e) => setUrl(e.target.value)}
-            placeholder="Enter URL"
-            className="input flex-1"
-          />
-          <button type="submit" className="btn-primary">
-            Add URL
-          </button>
-        </form>
+        {!readOnly && (
+          <>
+            {/* URL Input */}
+            <form onSubmit={handleUrlSubmit} className="flex gap-2">
+              <input
+                type="text"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="Enter URL"
+                className="input flex-1"
+              />
+              <button type="submit" className="btn-primary">
+                Add URL
+              </button>
+            </form>
 
-        {/* File Drop Zone */}
-        <div
-          onDragEnter={handleDrag}
-          onDragLeave={handleDrag}
-          onDragOver={handleDrag}
-          onDrop={handleDrop}
-          className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
-            dragActive
-              ? 'border-[#5DADEC] bg-[#5DADEC]/5'
-              : 'border-gray-700 hover:border-gray-600'
-          }`}
-        >
-          <div className="flex flex-col items-center gap-3">
-            <Upload className={`w-8 h-8 ${
-              dragActive ? 'text-[#5DADEC]' : 'text-gray-400'
-            }`} />
-            <div className="text-sm">
-              <span className="text-gray-400">
-                Drag and drop files here, or{' '}
-              </span>
-              <label className="text-[#5DADEC] hover:text-[#5DADEC]/80 cursor-pointer">
-                browse
-                <input
-                  type="file"
-                  className="hidden"
-                  accept={Object.keys(SUPPORTED_FILE_TYPES).join(',')}
-                  onChange={(e) => {
-                    const file = e.target.files?.[0];
-                    if (file) {
-                      handleDrop({
-                        preventDefault: () => {},
-                        stopPropagation: () => {},
-                        dataTransfer: { files: [file] }
-                      } as unknown as React.DragEvent);
-                    }
-                  }}
-                />
-              </label>
+            {/* File Drop Zone */}
+            <div
+              onDragEnter={handleDrag}
+              onDragLeave={handleDrag}
+              onDragOver={handleDrag}
+              onDrop={handleDrop}
+              className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                dragActive
+                  ? 'border-[#5DADEC] bg-[#5DADEC]/5'
+                  : 'border-gray-700 hover:border-gray-600'
+              }`}
+            >
+              <div className="flex flex-col items-center gap-3">
+                <Upload className={`w-8 h-8 ${
+                  dragActive ? 'text-[#5DADEC]' : 'text-gray-400'
+                }`} />
+                <div className="text-sm">
+                  <span className="text-gray-400">
+                    Drag and drop files here, or{' '}
+                  </span>
+                  <label className="text-[#5DADEC] hover:text-[#5DADEC]/80 cursor-pointer">
+                    browse
+                    <input
+                      type="file"
+                      className="hidden"
+                      accept={Object.keys(SUPPORTED_FILE_TYPES).join(',')}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) {
+                          handleDrop({
+                            preventDefault: () => {},
+                            stopPropagation: () => {},
+                            dataTransfer: { files: [file] }
+                          } as unknown as React.DragEvent);
+                        }
+                      }}
+                    />
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Supported formats: PDF, DOC, DOCX, JPEG, PNG, GIF (max 10MB)
+                </p>
+              </div>
             </div>
-            <p className="text-xs text-gray-500">
-              Supported formats: PDF, DOC, DOCX, JPEG, PNG, GIF (max 10MB)
-            </p>
-          </div>
-        </div>
+          </>
+        )}
 
         {/* Resource List */}
         {filteredResources.length > 0 ? (
@@ -1,15 +1,82 @@
-import React, { useState } from 'react';
-import { Brain, FolderOpen, Inbox, Plus, Loader2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import {
+  Archive,
+  Brain,
+  ChevronDown,
+  ChevronRight,
+  FolderOpen,
+  Inbox,
+  Plus,
+  Loader2,
+  RotateCcw,
+  Users
+} from 'lucide-react';
 import { useStore } from '../store';
 import { Project } from '../types';
+import { AuthPanel } from './AuthPanel';
+import { MemberList } from './MemberList';
+import { ProjectForm, ProjectFormValues } from './ProjectForm';
+import { TrashBin } from './TrashBin';
 
 export const Sidebar = () => {
-  const { projects, selectedProject, setSelectedProject, loading, createProject } = useStore();
+  const {
+    projects,
+    selectedProject,
+    setSelectedProject,
+    loading,
+    createProject,
+    remoteChanges,
+    dismissRemoteChange,
+    user,
+    workspaces,
+    selectedWorkspaceId,
+    setSelectedWorkspace,
+    createWorkspace,
+    workspaceMembers,
+    fetchWorkspaceMembers,
+    addWorkspaceMember,
+    removeWorkspaceMember,
+    archivedProjects,
+    archivedProjectRoles,
+    fetchArchivedProjects,
+    unarchiveProject,
+    undoStack,
+    redoStack
+  } = useStore();
   const [isCreating, setIsCreating] = useState(false);
+  const [workspaceName, setWorkspaceName] = useState<string | null>(null);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+
+  useEffect(() => {
+    if (selectedWorkspaceId) {
+      fetchWorkspaceMembers(selectedWorkspaceId);
+    }
+  }, [selectedWorkspaceId, fetchWorkspaceMembers]);
+
+  // Undo and redo can archive or restore projects too
+  useEffect(() => {
+    if (showArchived) fetchArchivedProjects();
+  }, [showArchived, selectedWorkspaceId, undoStack.length, redoStack.length, fetchArchivedProjects]);
+
+  const workspaceRole = selectedWorkspaceId
+    ? workspaceMembers.find((member) => member.user_id === user?.id)?.role
+    : 'owner';
+
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspaceName?.trim()) return;
+    if (await createWorkspace(workspaceName.trim())) {
+      setWorkspaceName(null);
+    }
+  };
 
   const handleProjectClick = async (project: Project) => {
     // Prevent re-selecting the same project
-    if (selectedProject?.id === project.id) return;
+    if (selectedProject?.id === project.id) {
+      dismissRemoteChange(project.id);
+      return;
+    }
     
     try {
       await setSelectedProject(project);
@@ -18,47 +85,98 @@ export const Sidebar = () => {
     }
   };
 
-  const handleCreateProject = async () => {
-    setIsCreating(true);
-    try {
-      await createProject({
-        name: 'New Project',
-        description: null,
-        phase: 'Planning',
-        priority: 'Medium',
-        timeline_type: 'Flexible',
-        archived: false
-      });
-    } catch (error) {
-      console.error('Error creating project:', error);
-    } finally {
-      setIsCreating(false);
-    }
+  // Opens the selected workspace's new project straight away
+  const handleCreateProject = async (values: ProjectFormValues) => {
+    const { row: project, error } = await createProject({ ...values, archived: false });
+    if (error) return false;
+    setIsCreating(false);
+    if (project) await setSelectedProject(project);
+    return true;
   };
 
   return (
-    <div className="w-64 bg-[#1C1C1C] border-r border-gray-800/50 h-screen p-6">
+    <div className="w-64 bg-[#1C1C1C] border-r border-gray-800/50 h-screen p-6 flex flex-col">
       <div className="flex items-center space-x-3 mb-8">
         <Brain className="w-8 h-8 text-primary animate-pulse-slow" />
         <h1 className="text-xl font-bold text-white">Zortal V1</h1>
       </div>
 
+      <div className="mb-6">
+        <div className="flex items-center gap-1">
+          <select
+            value={selectedWorkspaceId ?? ''}
+            onChange={(e) => {
+              setShowMembers(false);
+              setSelectedWorkspace(e.target.value || null);
+            }}
+            disabled={loading}
+            className="flex-1 min-w-0 text-sm bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300"
+          >
+            <option value="">Personal</option>
+            {workspaces.map((workspace) => (
+              <option key={workspace.id} value={workspace.id}>
+                {workspace.name}
+              </option>
+            ))}
+          </select>
+          {selectedWorkspaceId && (
+            <button
+              onClick={() => setShowMembers(!showMembers)}
+              className="p-1 text-gray-400 hover:text-primary transition-colors"
+              title="Members"
+            >
+              <Users className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => setWorkspaceName(workspaceName === null ? '' : null)}
+            className="p-1 text-gray-400 hover:text-primary transition-colors"
+            title="New workspace"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+
+        {workspaceName !== null && (
+          <form onSubmit={handleCreateWorkspace} className="mt-2">
+            <input
+              type="text"
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              placeholder="Workspace name"
+              className="input w-full text-sm"
+              autoFocus
+            />
+          </form>
+        )}
+
+        {showMembers && selectedWorkspaceId && (
+          <div className="mt-3">
+            <MemberList
+              members={workspaceMembers}
+              roles={['owner', 'editor', 'viewer']}
+              canManage={workspaceRole === 'owner'}
+              currentUserId={user?.id}
+              onAdd={addWorkspaceMember}
+              onRemove={removeWorkspaceMember}
+            />
+          </div>
+        )}
+      </div>
+
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-lg font-semibold text-gray-300">Projects</h2>
         <button 
-          onClick={handleCreateProject}
-          disabled={isCreating}
+          onClick={() => setIsCreating(true)}
+          disabled={isCreating || workspaceRole === 'viewer'}
           className="p-2 hover:bg-gray-800 rounded-full text-gray-300 hover:text-primary transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="New project"
         >
-          {isCreating ? (
-            <Loader2 className="w-5 h-5 animate-spin" />
-          ) : (
-            <Plus className="w-5 h-5" />
-          )}
+          <Plus className="w-5 h-5" />
         </button>
       </div>
 
-      <div className="space-y-1">
+      <div className="space-y-1 flex-1 overflow-y-auto">
         <button 
           onClick={() => setSelectedProject(null)}
           disabled={loading}
@@ -87,6 +205,12 @@ export const Sidebar = () => {
               <div className="flex items-center space-x-2 min-w-0">
                 <FolderOpen className="w-5 h-5 flex-shrink-0" />
                 <span className="truncate">{project.name}</span>
+                {remoteChanges[project.id] && (
+                  <span
+                    className="w-2 h-2 rounded-full bg-yellow-300 flex-shrink-0"
+                    title="Updated by someone else"
+                  />
+                )}
               </div>
               {loading && selectedProject?.id === project.id && (
                 <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" />
@@ -94,7 +218,70 @@ export const Sidebar = () => {
             </button>
           ))}
         </div>
+
+        <div className="pt-4">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="flex items-center gap-2 w-full px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            {showArchived ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            <Archive className="w-4 h-4" />
+            <span>Archived</span>
+          </button>
+
+          {showArchived && (
+            archivedProjects.length === 0 ? (
+              <p className="px-3 py-1 text-xs text-gray-500">No archived projects</p>
+            ) : (
+              <div className="space-y-1">
+                {archivedProjects.map((project) => (
+                  <div
+                    key={project.id}
+                    className={`flex items-center justify-between gap-2 rounded-lg px-3 py-2 text-sm ${
+                      selectedProject?.id === project.id ? 'bg-primary/10 text-primary' : 'text-gray-400'
+                    }`}
+                  >
+                    <button
+                      onClick={() => handleProjectClick(project)}
+                      disabled={loading}
+                      className="flex-1 min-w-0 text-left truncate hover:text-white transition-colors"
+                      title="View"
+                    >
+                      {project.name}
+                    </button>
+                    {archivedProjectRoles[project.id] !== 'viewer' && (
+                      <button
+                        onClick={() => unarchiveProject(project.id)}
+                        className="p-1 text-gray-400 hover:text-primary transition-colors flex-shrink-0"
+                        title="Restore"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
       </div>
+
+      <TrashBin />
+      <AuthPanel />
+
+      {isCreating && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <div className="card w-full max-w-md p-6">
+            <h2 className="text-lg font-semibold text-white mb-4">New project</h2>
+            <ProjectForm
+              takenNames={projects.map((project) => project.name)}
+              submitLabel="Create project"
+              onSubmit={handleCreateProject}
+              onCancel={() => setIsCreating(false)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { CheckCircle2, Circle, Trash2, Edit2, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
-import { useStore } from '../store';
+import { CheckCircle2, Circle, Trash2, Edit2, ArrowUpDown, ChevronLeft, ChevronRight, Users, UserCheck } from 'lucide-react';
+import { useStore, taskAssignees } from '../store';
 import { format } from 'date-fns';
 import { Task } from '../types';
 import { ResourceManager } from './ResourceManager';
+import { TaskActivity } from './ActivityFeed';
 
 type SortField = 'name' | 'priority' | 'due_date' | 'phase';
 type SortDirection = 'asc' | 'desc';
@@ -18,9 +19,21 @@ export const TaskList = () => {
     fetchTasks,
     currentPage,
     totalPages,
+    batchMutations,
     setPage,
-    loading
+    loading,
+    remoteChanges,
+    dismissRemoteChange,
+    projectRole,
+    projects,
+    projectMembers,
+    user,
+    taskScope,
+    setTaskScope
   } = useStore();
+  const showingMine = taskScope === 'mine';
+  // Only owners and editors can be assigned, so "My tasks" is always editable
+  const readOnly = projectRole === 'viewer' && !showingMine;
   
   const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
   const [filterPhase, setFilterPhase] = useState<string>('all');
@@ -31,12 +44,41 @@ export const TaskList = () => {
   const [editingTask, setEditingTask] = useState<string | null>(null);
 
   useEffect(() => {
-    if (selectedProject) {
-      fetchTasks(selectedProject.id, currentPage);
+    if (selectedProject || showingMine) {
+      fetchTasks(selectedProject?.id, currentPage);
     }
-  }, [selectedProject, currentPage, fetchTasks]);
+  }, [selectedProject, showingMine, currentPage, fetchTasks]);
 
-  if (!selectedProject) return null;
+  const scopeToggle = (
+    <div className="flex rounded-lg bg-gray-800 p-0.5 text-xs">
+      {(['project', 'mine'] as const).map(scope => (
+        <button
+          key={scope}
+          onClick={() => setTaskScope(scope)}
+          className={`px-2 py-1 rounded-md transition-colors ${
+            taskScope === scope ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {scope === 'project' ? 'Project' : 'My tasks'}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (!selectedProject && !showingMine) {
+    return (
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Tasks</h3>
+        {scopeToggle}
+      </div>
+    );
+  }
+
+  const describeAssignee = (userId: string) => {
+    if (userId === user?.id) return 'You';
+    const member = projectMembers.find(m => m.user_id === userId);
+    return member?.display_name ?? member?.email ?? 'Someone';
+  };
 
   const handleToggleComplete = async (e: React.MouseEvent, task: Task) => {
     e.preventDefault();
@@ -83,9 +125,11 @@ export const TaskList = () => {
     if (selectedTasks.size === 0) return;
     
     try {
-      for (const taskId of selectedTasks) {
-        await updateTask(taskId, { completed: true });
-      }
+      await batchMutations(`Completed ${selectedTasks.size} tasks`, async (group) => {
+        for (const taskId of selectedTasks) {
+          await updateTask(taskId, { completed: true }, { group });
+        }
+      });
       setSelectedTasks(new Set());
     } catch (error) {
       console.error('Error completing tasks:', error);
@@ -97,9 +141,11 @@ export const TaskList = () => {
     if (!window.confirm(`Are you sure you want to delete ${selectedTasks.size} tasks?`)) return;
     
     try {
-      for (const taskId of selectedTasks) {
-        await deleteTask(taskId);
-      }
+      await batchMutations(`Deleted ${selectedTasks.size} tasks`, async (group) => {
+        for (const taskId of selectedTasks) {
+          await deleteTask(taskId, { group });
+        }
+      });
       setSelectedTasks(new Set());
     } catch (error) {
       console.error('Error deleting tasks:', error);
@@ -156,12 +202,17 @@ export const TaskList = () => {
     })
     .sort(sortTasks);
 
+  const selectedTask = selectedTasks.size === 1
+    ? tasks.find(task => selectedTasks.has(task.id))
+    : undefined;
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-white">Tasks</h3>
         <div className="flex items-center space-x-2">
-          {selectedTasks.size > 0 && (
+          {scopeToggle}
+          {selectedTasks.size > 0 && !readOnly && (
             <>
               <button
                 onClick={handleBulkComplete}
@@ -254,7 +305,9 @@ export const TaskList = () => {
 
       <div className="space-y-2">
         {filteredAndSortedTasks.length === 0 ? (
-          <p className="text-gray-400 text-sm">No tasks match your criteria</p>
+          <p className="text-gray-400 text-sm">
+            {showingMine ? 'No tasks are assigned to you' : 'No tasks match your criteria'}
+          </p>
         ) : (
           <>
             {filteredAndSortedTasks.map((task) => (
@@ -273,7 +326,8 @@ export const TaskList = () => {
                 />
                 <button
                   onClick={(e) => handleToggleComplete(e, task)}
-                  className="p-2 -m-2 rounded-full hover:bg-gray-700/50 text-gray-500 hover:text-[#4DB6AC] transition-colors cursor-pointer"
+                  disabled={readOnly}
+                  className="p-2 -m-2 rounded-full hover:bg-gray-700/50 text-gray-500 hover:text-[#4DB6AC] transition-colors cursor-pointer disabled:cursor-default disabled:hover:bg-transparent disabled:hover:text-gray-500"
                 >
                   {task.completed ? (
                     <CheckCircle2 className="w-5 h-5" />
@@ -287,6 +341,21 @@ export const TaskList = () => {
                   }`}>
                     {task.name}
                   </h4>
+                  {remoteChanges[task.id] && (
+                    <button
+                      onClick={() => dismissRemoteChange(task.id)}
+                      className="flex items-center gap-1 text-xs text-yellow-300 hover:text-yellow-200 transition-colors"
+                      title="Dismiss"
+                    >
+                      <Users className="w-3 h-3" />
+                      Updated by someone else
+                    </button>
+                  )}
+                  {showingMine && task.project_id !== selectedProject?.id && (
+                    <p className="text-xs text-gray-500 truncate">
+                      {projects.find(project => project.id === task.project_id)?.name ?? 'Another project'}
+                    </p>
+                  )}
                   {task.description && (
                     <p className="text-xs text-gray-400 truncate">
                       {task.description}
@@ -297,6 +366,12 @@ export const TaskList = () => {
                       Due {format(new Date(task.due_date), 'MMM d, yyyy')}
                     </p>
                   )}
+                  {taskAssignees(task).length > 0 && (
+                    <p className="flex items-center gap-1 text-xs text-gray-400 truncate">
+                      <UserCheck className="w-3 h-3 flex-shrink-0" />
+                      {taskAssignees(task).map(describeAssignee).join(', ')}
+                    </p>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2">
                   <span className={`status-badge ${
@@ -319,18 +394,22 @@ export const TaskList = () => {
                   }`}>
                     {task.phase}
                   </span>
-                  <button
-                    onClick={(e) => handleDeleteTask(e, task.id)}
-                    className="p-2 -m-2 rounded-full hover:bg-gray-700/50 text-gray-400 hover:text-red-400 transition-colors cursor-pointer"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={(e) => handleEditClick(e, task.id)}
-                    className="p-2 -m-2 rounded-full hover:bg-gray-700/50 text-gray-400 hover:text-[#5DADEC] transition-colors cursor-pointer"
-                  >
-                    <Edit2 className="w-4 h-4" />
-                  </button>
+                  {!readOnly && (
+                    <>
+                      <button
+                        onClick={(e) => handleDeleteTask(e, task.id)}
+                        className="p-2 -m-2 rounded-full hover:bg-gray-700/50 text-gray-400 hover:text-red-400 transition-colors cursor-pointer"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={(e) => handleEditClick(e, task.id)}
+                        className="p-2 -m-2 rounded-full hover:bg-gray-700/50 text-gray-400 hover:text-[#5DADEC] transition-colors cursor-pointer"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             ))}
@@ -362,9 +441,10 @@ export const TaskList = () => {
         )}
       </div>
 
-      {selectedTasks.size === 1 && (
-        <div className="mt-6 pt-6 border-t border-gray-800">
-          <ResourceManager taskId={Array.from(selectedTasks)[0]} />
+      {selectedTask && (
+        <div className="mt-6 pt-6 border-t border-gray-800 space-y-6">
+          <ResourceManager taskId={selectedTask.id} />
+          <TaskActivity task={selectedTask} />
         </div>
       )}
     </div>
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, RotateCcw, Trash2, X } from 'lucide-react';
+import { addDays, differenceInCalendarDays, formatDistanceToNow } from 'date-fns';
+import { useStore, TRASH_RETENTION_DAYS } from '../store';
+import { TrashItem } from '../types';
+
+const describeItem = ({ entity, row }: TrashItem): string => {
+  switch (entity) {
+    case 'task':
+      return row.name;
+    case 'note':
+      return row.content;
+    case 'resource':
+      return row.url ?? row.file_path ?? 'Resource';
+    case 'reminder':
+      return row.message ?? 'Reminder';
+  }
+};
+
+export const TrashBin: React.FC = () => {
+  const { trash, projects, fetchTrash, restoreFromTrash, deleteForever, undoStack, redoStack } = useStore();
+  const [open, setOpen] = useState(false);
+
+  // Undo and redo can put things back in the trash or take them out
+  useEffect(() => {
+    if (open) fetchTrash();
+  }, [open, undoStack.length, redoStack.length, fetchTrash]);
+
+  const handleDeleteForever = async (item: TrashItem) => {
+    if (window.confirm(`Permanently delete this ${item.entity}?`)) {
+      await deleteForever(item);
+    }
+  };
+
+  const projectName = (item: TrashItem) => {
+    const projectId = 'project_id' in item.row ? item.row.project_id : null;
+    return projects.find((project) => project.id === projectId)?.name;
+  };
+
+  const daysLeft = (deletedAt: string) =>
+    Math.max(0, differenceInCalendarDays(addDays(new Date(deletedAt), TRASH_RETENTION_DAYS), new Date()));
+
+  return (
+    <div className="border-t border-gray-800/50 pt-4 mt-4">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 w-full text-sm text-gray-300 hover:text-white transition-colors"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <Trash2 className="w-4 h-4" />
+        <span>Trash</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 max-h-64 overflow-y-auto space-y-2">
+          {trash.length === 0 ? (
+            <p className="text-xs text-gray-400">The trash is empty</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500">
+                Items are deleted for good after {TRASH_RETENTION_DAYS} days.
+              </p>
+              <ul className="space-y-2">
+                {trash.map((item) => (
+                  <li key={item.row.id} className="flex items-start justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-gray-300 truncate">{describeItem(item)}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        <span className="capitalize">{item.entity}</span>
+                        {projectName(item) && ` in ${projectName(item)}`}
+                        {item.row.deleted_at && (
+                          <>
+                            {' · '}
+                            {formatDistanceToNow(new Date(item.row.deleted_at), { addSuffix: true })}
+                            {`, ${daysLeft(item.row.deleted_at)}d left`}
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => restoreFromTrash(item)}
+                        className="p-1 text-gray-400 hover:text-primary transition-colors"
+                        title="Restore"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteForever(item)}
+                        className="p-1 text-gray-400 hover:text-red-300 transition-colors"
+                        title="Delete forever"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
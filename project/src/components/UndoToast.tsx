@@ -0,0 +1,80 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Redo2, Undo2, X } from 'lucide-react';
+import { useStore } from '../store';
+
+const TOAST_DURATION = 6000;
+
+type Notice = { text: string; action: 'undo' | 'redo' };
+
+// Text fields keep their own undo
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const UndoToast: React.FC = () => {
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  // Redoing records a new undo step, which the subscription below announces.
+  // Read through getState so the keyboard listener is only added once.
+  const run = useCallback(async (action: 'undo' | 'redo') => {
+    const { undo, redo } = useStore.getState();
+    if (action === 'redo') {
+      await redo();
+      return;
+    }
+    const step = await undo();
+    setNotice(step ? { text: `Undid: ${step.description}`, action: 'redo' } : null);
+  }, []);
+
+  // Offer to undo each new step as it is recorded
+  useEffect(() => useStore.subscribe((state, previous) => {
+    const latest = state.undoStack[state.undoStack.length - 1];
+    if (latest && !previous.undoStack.some((entry) => entry.id === latest.id)) {
+      setNotice({ text: latest.description, action: 'undo' });
+    }
+  }), []);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditable(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        run(e.shiftKey ? 'redo' : 'undo');
+      } else if (key === 'y') {
+        e.preventDefault();
+        run('redo');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [run]);
+
+  if (!notice) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 card px-4 py-3 flex items-center gap-4 text-sm">
+      <span className="text-gray-200">{notice.text}</span>
+      <button
+        onClick={() => run(notice.action)}
+        className="flex items-center gap-1 text-primary hover:text-primary/80 transition-colors"
+      >
+        {notice.action === 'undo' ? <Undo2 className="w-4 h-4" /> : <Redo2 className="w-4 h-4" />}
+        {notice.action === 'undo' ? 'Undo' : 'Redo'}
+      </button>
+      <button
+        onClick={() => setNotice(null)}
+        className="text-gray-400 hover:text-gray-300 transition-colors"
+        title="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
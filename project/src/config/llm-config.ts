@@ -0,0 +1,40 @@
+export type LLMProviderType = 'deepseek' | 'openai' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderType;
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  maxTokens: number;
+  // Prompt budget before older turns are summarized
+  contextTokens: number;
+  temperature: number;
+  topP: number;
+  frequencyPenalty: number;
+  presencePenalty: number;
+}
+
+const env = import.meta.env;
+
+const numberFromEnv = (value: string | undefined, fallback: number): number => {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const provider = (env.VITE_LLM_PROVIDER || 'deepseek').toLowerCase();
+
+export const llmConfig: LLMConfig = {
+  provider: ['deepseek', 'openai', 'mock'].includes(provider)
+    ? provider as LLMProviderType
+    : 'deepseek',
+  baseUrl: env.VITE_LLM_BASE_URL,
+  apiKey: env.VITE_LLM_API_KEY,
+  model: env.VITE_LLM_MODEL,
+  maxTokens: numberFromEnv(env.VITE_LLM_MAX_TOKENS, 1024),
+  contextTokens: numberFromEnv(env.VITE_LLM_CONTEXT_TOKENS, 6000),
+  temperature: numberFromEnv(env.VITE_LLM_TEMPERATURE, 0.7),
+  topP: numberFromEnv(env.VITE_LLM_TOP_P, 1),
+  frequencyPenalty: numberFromEnv(env.VITE_LLM_FREQUENCY_PENALTY, 0.3),
+  presencePenalty: numberFromEnv(env.VITE_LLM_PRESENCE_PENALTY, 0.3)
+};
@@ -0,0 +1,780 @@
+import { format, parseISO } from 'date-fns';
+import { useStore, taskAssignees } from '../store';
+import { ParsedCommand, parseDueDate, parseReminderDate } from './commandParser';
+import { ToolCall } from './llmTools';
+import { Task, Project, TaskFilters, ProjectMember } from '../types';
+
+export interface CommandResult {
+  content: string;
+  error?: string;
+}
+
+interface Resolution<T> {
+  item?: T;
+  error?: string;
+}
+
+const HELP_TEXT = [
+  'Here are the commands I understand:',
+  '• add task [name] to [project] with [high/medium/low] priority due [date]',
+  '• edit [task] to set due date to [next friday/in 3 days/YYYY-MM-DD]',
+  '• edit [task] to set priority to [high/medium/low]',
+  '• edit [task] to set phase to [planning/in progress/on hold/completed]',
+  '• edit [task] to set name to [name] and description to [text]',
+  '  (combine fields with "and", e.g. "priority to high and due date to friday")',
+  '• show tasks for [project] with [high/medium/low] priority',
+  '• show overdue high priority tasks in [project] sorted by due date',
+  '• show incomplete tasks due this week matching [text]',
+  '• show top 5 tasks due in the next 14 days',
+  '• mark task [name] as completed',
+  '• mark all tasks in [project] as completed',
+  '• assign [task] to [person] (or "to me")',
+  '• unassign [person] from [task]',
+  '• show my tasks / show tasks assigned to [person]',
+  '• delete task [name]',
+  '• delete completed tasks',
+  '• archive project [name] / restore project [name]',
+  '• add note to [task] saying [content]',
+  '• remind me about [task] [tomorrow at 3pm/next friday/in 3 days]',
+  '• remind me to [message] [date]',
+  '• undo / redo (the last change)',
+  'Anything else is sent to the assistant.'
+].join('\n');
+
+function pickByName<T extends { name: string }>(
+  candidates: T[],
+  name: string,
+  label: 'task' | 'project'
+): Resolution<T> {
+  const normalizedName = name.toLowerCase().trim();
+
+  // Prefer exact matches so "Design" doesn't collide with "Design Homepage"
+  const exact = candidates.filter(c => c.name.toLowerCase() === normalizedName);
+  const matches = exact.length > 0
+    ? exact
+    : candidates.filter(c => c.name.toLowerCase().includes(normalizedName));
+
+  if (matches.length === 0) {
+    return { error: `I couldn't find a ${label} named "${name}".` };
+  }
+  if (matches.length > 1) {
+    const names = matches.slice(0, 5).map(m => `"${m.name}"`).join(', ');
+    return {
+      error: `"${name}" matches ${matches.length} ${label}s (${names}). Please be more specific.`
+    };
+  }
+  return { item: matches[0] };
+}
+
+export function resolveProject(name: string): Resolution<Project> {
+  return pickByName(useStore.getState().projects, name, 'project');
+}
+
+export async function resolveTask(name: string, projectId?: string): Promise<Resolution<Task>> {
+  const { tasks, error } = await useStore.getState().findTasks({ name, projectId });
+  if (error) return { error: `I couldn't look up tasks: ${error}` };
+  return pickByName(tasks, name, 'task');
+}
+
+const SELF_REFERENCE = /^(?:me|myself|i)$/i;
+
+// Matches a name against the people on a project: display name, full email or the part before the @
+export async function resolveMember(name: string, projectId: string): Promise<Resolution<ProjectMember>> {
+  const { fetchProjectMembers, user } = useStore.getState();
+  const members = await fetchProjectMembers(projectId);
+
+  if (SELF_REFERENCE.test(name.trim())) {
+    const self = members.find(m => m.user_id === user?.id);
+    return self ? { item: self } : { error: "You aren't a member of that project." };
+  }
+
+  const normalizedName = name.toLowerCase().trim();
+  const labels = (member: ProjectMember) =>
+    [member.display_name, member.email, member.email?.split('@')[0]]
+      .filter((label): label is string => !!label)
+      .map(label => label.toLowerCase());
+
+  const exact = members.filter(m => labels(m).includes(normalizedName));
+  const matches = exact.length > 0
+    ? exact
+    : members.filter(m => labels(m).some(label => label.startsWith(normalizedName)));
+
+  if (matches.length === 0) {
+    return { error: `I couldn't find anyone named "${name}" on this project.` };
+  }
+  if (matches.length > 1) {
+    const names = matches.slice(0, 5).map(m => `"${m.email ?? m.display_name}"`).join(', ');
+    return { error: `"${name}" matches ${matches.length} people (${names}). Please be more specific.` };
+  }
+  return { item: matches[0] };
+}
+
+function describePerson(userId: string): string {
+  const { user, projectMembers } = useStore.getState();
+  if (userId === user?.id) return 'you';
+  const member = projectMembers.find(m => m.user_id === userId);
+  return member?.display_name ?? member?.email ?? 'someone';
+}
+
+function joinNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+}
+
+function describeTasks(tasks: Task[]): string {
+  return tasks.map(task => {
+    const assignees = taskAssignees(task);
+    return `• ${task.name} (${task.priority} priority, ${task.phase}${
+      task.due_date ? `, due ${format(parseISO(task.due_date), 'MMM d, yyyy')}` : ''
+    }${
+      assignees.length > 0 ? `, assigned to ${joinNames(assignees.map(describePerson))}` : ''
+    })${task.completed ? ' ✓' : ''}`;
+  }).join('\n');
+}
+
+async function executeAddTask(command: ParsedCommand): Promise<CommandResult> {
+  if (!command.taskName) {
+    return { content: 'What should the new task be called?', error: 'Missing task name' };
+  }
+
+  let project = useStore.getState().selectedProject;
+  if (command.projectName) {
+    const resolution = resolveProject(command.projectName);
+    if (!resolution.item) return { content: resolution.error!, error: resolution.error };
+    project = resolution.item;
+  }
+  if (!project) {
+    return {
+      content: `Which project should "${command.taskName}" go in? Try "add task ${command.taskName} to [project]".`,
+      error: 'Missing project'
+    };
+  }
+
+  const { error: createError } = await useStore.getState().createTask({
+    project_id: project.id,
+    name: command.taskName,
+    description: command.description ?? null,
+    phase: command.phase ?? 'Planning',
+    priority: command.priority ?? 'Medium',
+    due_date: command.dueDate ?? null,
+    completed: false
+  });
+  if (createError) {
+    return { content: `I couldn't add "${command.taskName}": ${createError}`, error: createError };
+  }
+
+  const details = [
+    `${command.priority ?? 'Medium'} priority`,
+    command.phase ?? 'Planning',
+    command.dueDate ? `due ${format(parseISO(command.dueDate), 'MMM d, yyyy')}` : null
+  ].filter(Boolean).join(', ');
+  return { content: `Added "${command.taskName}" to "${project.name}" (${details}).` };
+}
+
+async function executeEditTask(command: ParsedCommand): Promise<CommandResult> {
+  if (!command.taskName) {
+    return { content: 'Which task would you like to edit?', error: 'Missing task name' };
+  }
+
+  const updates: Partial<Task> = {};
+  if (command.dueDate) updates.due_date = command.dueDate;
+  if (command.priority) updates.priority = command.priority;
+  if (command.phase) updates.phase = command.phase;
+  if (command.newName) updates.name = command.newName;
+  if (command.description !== undefined) updates.description = command.description;
+  if (command.completed !== undefined) updates.completed = command.completed;
+
+  if (Object.keys(updates).length === 0) {
+    return {
+      content: `I couldn't tell what to change on "${command.taskName}". Try "help" for examples.`,
+      error: 'No updates found'
+    };
+  }
+
+  const { item: task, error } = await resolveTask(
+    command.taskName,
+    useStore.getState().selectedProject?.id
+  );
+  if (!task) return { content: error!, error };
+
+  // All fields go out in a single update so a partial failure can't leave the task half-edited
+  const { error: updateError } = await useStore.getState().updateTask(task.id, updates);
+  if (updateError) {
+    return { content: `I couldn't update "${task.name}": ${updateError}`, error: updateError };
+  }
+
+  const changes = Object.entries(updates).map(([field, value]) =>
+    `${field.replace('_', ' ')} → ${field === 'due_date' ? format(parseISO(value as string), 'MMM d, yyyy') : value}`
+  );
+  return { content: `Updated "${task.name}": ${changes.join(', ')}.` };
+}
+
+function describeQuery(query: TaskFilters, project: Project | null, assignee?: string): string {
+  const qualifiers = [
+    query.overdue ? 'overdue' : null,
+    query.unassigned ? 'unassigned' : null,
+    query.completed === true ? 'completed' : query.completed === false ? 'incomplete' : null,
+    query.priority ? `${query.priority} priority` : null,
+    query.phase ? `"${query.phase}"` : null
+  ].filter(Boolean);
+
+  const conditions = [
+    assignee ? `assigned to ${assignee}` : null,
+    project ? `in "${project.name}"` : 'across all projects',
+    query.search ? `matching "${query.search}"` : null,
+    query.dueAfter && query.dueBefore
+      ? query.dueAfter === query.dueBefore
+        ? `due ${format(parseISO(query.dueAfter), 'MMM d')}`
+        : `due ${format(parseISO(query.dueAfter), 'MMM d')} – ${format(parseISO(query.dueBefore), 'MMM d')}`
+      : query.dueBefore
+        ? `due by ${format(parseISO(query.dueBefore), 'MMM d')}`
+        : query.dueAfter
+          ? `due from ${format(parseISO(query.dueAfter), 'MMM d')}`
+          : null,
+    query.sortBy ? `sorted by ${query.sortBy.replace('_', ' ')}` : null
+  ].filter(Boolean);
+
+  return [...qualifiers, 'tasks', ...conditions].join(' ');
+}
+
+async function executeShowTasks(command: ParsedCommand): Promise<CommandResult> {
+  const { selectedProject } = useStore.getState();
+  let project: Project | null = selectedProject;
+
+  if (command.projectName) {
+    const resolution = resolveProject(command.projectName);
+    if (!resolution.item) return { content: resolution.error!, error: resolution.error };
+    project = resolution.item;
+  }
+
+  const query: TaskFilters = {
+    ...(command.query ?? { priority: command.priority }),
+    projectId: project?.id
+  };
+
+  let assignee: string | undefined;
+  const assigneeName = command.assignees?.[0];
+  if (assigneeName && SELF_REFERENCE.test(assigneeName)) {
+    query.assigneeId = useStore.getState().user?.id;
+    assignee = 'you';
+  } else if (assigneeName) {
+    // Other people are looked up among the project's members
+    if (!project) {
+      return {
+        content: `Which project is ${assigneeName} on? Try "show tasks assigned to ${assigneeName} in [project]".`,
+        error: 'Missing project'
+      };
+    }
+    const { item: member, error } = await resolveMember(assigneeName, project.id);
+    if (!member) return { content: error!, error };
+    query.assigneeId = member.user_id;
+    assignee = member.display_name ?? member.email ?? assigneeName;
+  }
+
+  const { tasks, error: fetchError } = await useStore.getState().findTasks(query);
+  if (fetchError) {
+    return { content: `I couldn't load tasks: ${fetchError}`, error: fetchError };
+  }
+
+  const scope = describeQuery(query, project, assignee);
+  if (tasks.length === 0) {
+    return { content: `No ${scope}.` };
+  }
+
+  if (project && project.id !== selectedProject?.id) {
+    await useStore.getState().setSelectedProject(project);
+  }
+
+  const heading = scope.charAt(0).toUpperCase() + scope.slice(1);
+  return { content: `${heading} (${tasks.length}):\n${describeTasks(tasks)}` };
+}
+
+async function executeMarkTasks(command: ParsedCommand): Promise<CommandResult> {
+  const { selectedProject, updateTask, findTasks, batchMutations } = useStore.getState();
+
+  if (command.taskName) {
+    const { item: task, error } = await resolveTask(command.taskName, selectedProject?.id);
+    if (!task) return { content: error!, error };
+
+    const { error: updateError } = await updateTask(task.id, { completed: true });
+    if (updateError) {
+      return { content: `I couldn't update "${task.name}": ${updateError}`, error: updateError };
+    }
+    return { content: `Marked "${task.name}" as completed.` };
+  }
+
+  let project: Project | null = selectedProject;
+  if (command.projectName) {
+    const resolution = resolveProject(command.projectName);
+    if (!resolution.item) return { content: resolution.error!, error: resolution.error };
+    project = resolution.item;
+  }
+  if (!project) {
+    return {
+      content: 'Which project? Try "mark all tasks in [project] as completed".',
+      error: 'Missing project'
+    };
+  }
+
+  const { tasks, error: fetchError } = await findTasks({ projectId: project.id, completed: false });
+  if (fetchError) {
+    return { content: `I couldn't load tasks: ${fetchError}`, error: fetchError };
+  }
+  if (tasks.length === 0) {
+    return { content: `All tasks in "${project.name}" are already completed.` };
+  }
+
+  // One undo step brings them all back
+  const stopped = await batchMutations(`Completed ${tasks.length} tasks in "${project.name}"`, async (group) => {
+    for (const task of tasks) {
+      const { error: updateError } = await updateTask(task.id, { completed: true }, { group });
+      if (updateError) return { task, error: updateError };
+    }
+    return null;
+  });
+  if (stopped) {
+    return {
+      content: `Stopped after an error updating "${stopped.task.name}": ${stopped.error}`,
+      error: stopped.error
+    };
+  }
+
+  return { content: `Marked ${tasks.length} task${tasks.length === 1 ? '' : 's'} in "${project.name}" as completed.` };
+}
+
+async function executeDeleteTasks(command: ParsedCommand): Promise<CommandResult> {
+  const { selectedProject, deleteTask, findTasks, batchMutations } = useStore.getState();
+
+  if (command.taskName) {
+    const { item: task, error } = await resolveTask(command.taskName, selectedProject?.id);
+    if (!task) return { content: error!, error };
+
+    const { error: deleteError } = await deleteTask(task.id);
+    if (deleteError) {
+      return { content: `I couldn't delete "${task.name}": ${deleteError}`, error: deleteError };
+    }
+    return { content: `Moved "${task.name}" to the trash. Say "undo" to bring it back.` };
+  }
+
+  if (!command.completed) {
+    return {
+      content: 'Which tasks should I delete? Try "delete task [name]" or "delete completed tasks".',
+      error: 'Missing task name'
+    };
+  }
+  if (!selectedProject) {
+    return {
+      content: 'Select a project first so I know which completed tasks to delete.',
+      error: 'No project selected'
+    };
+  }
+
+  const { tasks, error: fetchError } = await findTasks({ projectId: selectedProject.id, completed: true });
+  if (fetchError) {
+    return { content: `I couldn't load tasks: ${fetchError}`, error: fetchError };
+  }
+  if (tasks.length === 0) {
+    return { content: `There are no completed tasks in "${selectedProject.name}".` };
+  }
+
+  const stopped = await batchMutations(`Deleted ${tasks.length} completed tasks`, async (group) => {
+    for (const task of tasks) {
+      const { error: deleteError } = await deleteTask(task.id, { group });
+      if (deleteError) return { task, error: deleteError };
+    }
+    return null;
+  });
+  if (stopped) {
+    return {
+      content: `Stopped after an error deleting "${stopped.task.name}": ${stopped.error}`,
+      error: stopped.error
+    };
+  }
+
+  return {
+    content: `Moved ${tasks.length} completed task${tasks.length === 1 ? '' : 's'} from "${selectedProject.name}" ` +
+      'to the trash. Say "undo" to bring them back.'
+  };
+}
+
+async function executeArchiveProject(command: ParsedCommand): Promise<CommandResult> {
+  const restoring = command.type === 'restore_project';
+  if (!command.projectName) {
+    return {
+      content: `Which project? Try "${restoring ? 'restore' : 'archive'} project [name]".`,
+      error: 'Missing project name'
+    };
+  }
+
+  const { archiveProject, unarchiveProject, fetchArchivedProjects } = useStore.getState();
+
+  if (restoring) {
+    await fetchArchivedProjects();
+    const { item: project, error } = pickByName(useStore.getState().archivedProjects, command.projectName, 'project');
+    if (!project) {
+      const active = resolveProject(command.projectName).item;
+      const content = active ? `"${active.name}" isn't archived.` : error!;
+      return { content, error: content };
+    }
+
+    const { error: restoreError } = await unarchiveProject(project.id);
+    if (restoreError) {
+      return { content: `I couldn't restore "${project.name}": ${restoreError}`, error: restoreError };
+    }
+    return { content: `Restored "${project.name}".` };
+  }
+
+  const { item: project, error } = resolveProject(command.projectName);
+  if (!project) return { content: error!, error };
+
+  const { error: archiveError } = await archiveProject(project.id);
+  if (archiveError) {
+    return { content: `I couldn't archive "${project.name}": ${archiveError}`, error: archiveError };
+  }
+  return { content: `Archived "${project.name}". You'll find it under Archived in the sidebar.` };
+}
+
+async function executeAssignment(command: ParsedCommand): Promise<CommandResult> {
+  const unassigning = command.type === 'unassign_task';
+  if (!command.taskName || !command.assignees?.length) {
+    return {
+      content: unassigning ? 'Try "unassign [person] from [task]".' : 'Try "assign [task] to [person]".',
+      error: 'Missing task or assignee'
+    };
+  }
+
+  const { item: task, error } = await resolveTask(command.taskName, useStore.getState().selectedProject?.id);
+  if (!task) return { content: error!, error };
+
+  const people: ProjectMember[] = [];
+  for (const name of command.assignees) {
+    const { item: member, error: memberError } = await resolveMember(name, task.project_id);
+    if (!member) return { content: memberError!, error: memberError };
+    people.push(member);
+  }
+
+  const current = taskAssignees(task);
+  const ids = people.map(person => person.user_id);
+  const next = unassigning
+    ? current.filter(id => !ids.includes(id))
+    : [...current, ...ids.filter(id => !current.includes(id))];
+  const names = joinNames(people.map(person => describePerson(person.user_id)));
+
+  if (next.length === current.length) {
+    return {
+      content: unassigning
+        ? `"${task.name}" isn't assigned to ${names}.`
+        : `"${task.name}" is already assigned to ${names}.`
+    };
+  }
+
+  const { error: updateError } = await useStore.getState().updateTask(task.id, { assignee_ids: next });
+  if (updateError) {
+    return { content: `I couldn't update "${task.name}": ${updateError}`, error: updateError };
+  }
+
+  return {
+    content: unassigning ? `Unassigned ${names} from "${task.name}".` : `Assigned "${task.name}" to ${names}.`
+  };
+}
+
+async function executeHistory(direction: 'undo' | 'redo'): Promise<CommandResult> {
+  const { undo, redo } = useStore.getState();
+  const step = await (direction === 'undo' ? undo() : redo());
+  if (!step) {
+    return { content: direction === 'undo' ? 'There is nothing to undo.' : 'There is nothing to redo.' };
+  }
+
+  const { description, error: historyError } = step;
+  if (historyError) {
+    return {
+      content: `I couldn't fully ${direction} "${description}": ${historyError}`,
+      error: historyError
+    };
+  }
+  return { content: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${description}.` };
+}
+
+async function executeAddNote(command: ParsedCommand): Promise<CommandResult> {
+  if (!command.note) {
+    return {
+      content: 'Try "add note to [task] saying [content]".',
+      error: 'Missing task name or note'
+    };
+  }
+
+  const { selectedProject, createNote } = useStore.getState();
+  let target: { project_id: string | null; task_id: string | null; name: string };
+
+  if (command.taskName) {
+    const { item: task, error } = await resolveTask(command.taskName, selectedProject?.id);
+    if (!task) return { content: error!, error };
+    target = { project_id: null, task_id: task.id, name: task.name };
+  } else {
+    let project = selectedProject;
+    if (command.projectName) {
+      const resolution = resolveProject(command.projectName);
+      if (!resolution.item) return { content: resolution.error!, error: resolution.error };
+      project = resolution.item;
+    }
+    if (!project) {
+      return {
+        content: 'Which task or project should the note go on? Try "add note to [task] saying [content]".',
+        error: 'Nothing to attach the note to'
+      };
+    }
+    target = { project_id: project.id, task_id: null, name: project.name };
+  }
+
+  const { error: createError } = await createNote({
+    project_id: target.project_id,
+    task_id: target.task_id,
+    content: command.note,
+    tags: []
+  });
+  if (createError) {
+    return { content: `I couldn't add the note: ${createError}`, error: createError };
+  }
+
+  return { content: `Added a note to "${target.name}".` };
+}
+
+async function executeAddReminder(command: ParsedCommand): Promise<CommandResult> {
+  if (!command.reminderDate) {
+    return {
+      content: 'When should I remind you? Try "remind me about [task] tomorrow at 3pm".',
+      error: 'Missing reminder date'
+    };
+  }
+
+  const { selectedProject, createReminder } = useStore.getState();
+  let linked: { type: 'Project' | 'Task'; id: string; name: string } | null = null;
+
+  if (command.taskName) {
+    const { item: task, error } = await resolveTask(command.taskName, selectedProject?.id);
+    if (!task) return { content: error!, error };
+    linked = { type: 'Task', id: task.id, name: task.name };
+  } else if (command.projectName) {
+    const resolution = resolveProject(command.projectName);
+    if (!resolution.item) return { content: resolution.error!, error: resolution.error };
+    linked = { type: 'Project', id: resolution.item.id, name: resolution.item.name };
+  } else if (selectedProject) {
+    linked = { type: 'Project', id: selectedProject.id, name: selectedProject.name };
+  }
+
+  if (!linked) {
+    return {
+      content: 'Select a project first, or mention a task with "remind me about [task] ...".',
+      error: 'Nothing to link the reminder to'
+    };
+  }
+
+  const { error: createError } = await createReminder({
+    linked_entity_type: linked.type,
+    linked_entity_id: linked.id,
+    reminder_date: command.reminderDate,
+    message: command.message ?? null
+  });
+  if (createError) {
+    return { content: `I couldn't set the reminder: ${createError}`, error: createError };
+  }
+
+  return {
+    content: `I'll remind you about "${command.message ?? linked.name}" on ${
+      format(new Date(command.reminderDate), "EEE, MMM d 'at' h:mm a")
+    }.`
+  };
+}
+
+export async function executeCommand(command: ParsedCommand): Promise<CommandResult> {
+  switch (command.type) {
+    case 'add_task':
+      return executeAddTask(command);
+    case 'edit_task':
+      return executeEditTask(command);
+    case 'show_tasks':
+      return executeShowTasks(command);
+    case 'mark_tasks':
+      return executeMarkTasks(command);
+    case 'delete_tasks':
+      return executeDeleteTasks(command);
+    case 'assign_task':
+    case 'unassign_task':
+      return executeAssignment(command);
+    case 'archive_project':
+    case 'restore_project':
+      return executeArchiveProject(command);
+    case 'add_note':
+      return executeAddNote(command);
+    case 'add_reminder':
+      return executeAddReminder(command);
+    case 'undo':
+    case 'redo':
+      return executeHistory(command.type);
+    case 'help':
+      return { content: HELP_TEXT };
+    default:
+      return {
+        content: "I didn't recognize that command. Type \"help\" to see what I can do.",
+        error: `Unsupported command: ${command.type}`
+      };
+  }
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+const PRIORITIES: Task['priority'][] = ['High', 'Medium', 'Low'];
+const TASK_PHASES: Task['phase'][] = ['Planning', 'In Progress', 'On Hold', 'Completed'];
+const PROJECT_PHASES: Project['phase'][] = [...TASK_PHASES, 'Ongoing'];
+const TIMELINES: Project['timeline_type'][] = ['No Timeline', 'Flexible', 'Strict'];
+
+// Tool arguments come from the model, so values outside the schema are reported back
+// to it as failures rather than written or dropped
+function pickChoice<T extends string>(value: unknown, field: string, allowed: T[]): Resolution<T> {
+  const text = optionalString(value);
+  if (!text) return {};
+  const choice = allowed.find(option => option.toLowerCase() === text.toLowerCase());
+  return choice
+    ? { item: choice }
+    : { error: `"${text}" isn't a valid ${field}. Use one of: ${allowed.join(', ')}.` };
+}
+
+function pickDate(value: unknown, field: string): Resolution<string> {
+  const text = optionalString(value);
+  if (!text) return {};
+  const date = parseDueDate(text);
+  return date ? { item: date } : { error: `I couldn't understand the ${field} "${text}".` };
+}
+
+// The first invalid argument, as a failed result
+function invalidArgument(...resolutions: Resolution<unknown>[]): CommandResult | null {
+  const error = resolutions.find(resolution => resolution.error)?.error;
+  return error ? { content: error, error: 'Invalid argument' } : null;
+}
+
+async function executeProjectToolCall(call: ToolCall): Promise<CommandResult> {
+  const args = call.arguments;
+  const phase = pickChoice(args.phase, 'phase', PROJECT_PHASES);
+  const priority = pickChoice(args.priority, 'priority', PRIORITIES);
+  const timeline = pickChoice(args.timeline_type, 'timeline type', TIMELINES);
+  const startDate = pickDate(args.start_date, 'start date');
+  const targetDate = pickDate(args.target_date, 'target date');
+  const invalid = invalidArgument(phase, priority, timeline, startDate, targetDate);
+  if (invalid) return invalid;
+
+  const fields: Partial<Project> = {};
+  if (optionalString(args.description)) fields.description = optionalString(args.description)!;
+  if (phase.item) fields.phase = phase.item;
+  if (priority.item) fields.priority = priority.item;
+  if (timeline.item) fields.timeline_type = timeline.item;
+  if (startDate.item) fields.start_date = startDate.item;
+  if (targetDate.item) fields.target_date = targetDate.item;
+
+  if (call.name === 'create_project') {
+    const name = optionalString(args.name);
+    if (!name) return { content: 'The new project needs a name.', error: 'Missing project name' };
+
+    const { error: createError } = await useStore.getState().createProject({
+      name,
+      description: fields.description ?? null,
+      phase: fields.phase ?? 'Planning',
+      priority: fields.priority ?? 'Medium',
+      timeline_type: fields.timeline_type ?? 'Flexible',
+      start_date: fields.start_date ?? null,
+      target_date: fields.target_date ?? null,
+      archived: false
+    });
+    if (createError) {
+      return { content: `I couldn't create "${name}": ${createError}`, error: createError };
+    }
+    return { content: `Created project "${name}".` };
+  }
+
+  const { item: project, error } = resolveProject(optionalString(args.project_name) ?? '');
+  if (!project) return { content: error!, error };
+
+  if (optionalString(args.name)) fields.name = optionalString(args.name)!;
+  if (Object.keys(fields).length === 0) {
+    return { content: `Nothing to change on "${project.name}".`, error: 'No updates found' };
+  }
+
+  const { error: updateError } = await useStore.getState().updateProject(project.id, fields);
+  if (updateError) {
+    return { content: `I couldn't update "${project.name}": ${updateError}`, error: updateError };
+  }
+  return { content: `Updated project "${project.name}".` };
+}
+
+/**
+ * Runs a tool call the assistant proposed and the user confirmed. Task, note
+ * and reminder calls are translated into the matching chat command so both
+ * paths share name resolution and reporting.
+ */
+export async function executeToolCall(call: ToolCall): Promise<CommandResult> {
+  const args = call.arguments;
+  const priority = pickChoice(args.priority, 'priority', PRIORITIES);
+  const phase = pickChoice(args.phase, 'phase', TASK_PHASES);
+  const dueDate = pickDate(args.due_date, 'due date');
+
+  switch (call.name) {
+    case 'create_project':
+    case 'update_project':
+      return executeProjectToolCall(call);
+    case 'archive_project':
+      return executeArchiveProject({
+        type: args.restore === true ? 'restore_project' : 'archive_project',
+        projectName: optionalString(args.project_name)
+      });
+    case 'create_task':
+      return invalidArgument(priority, phase, dueDate) ?? executeAddTask({
+        type: 'add_task',
+        taskName: optionalString(args.name),
+        projectName: optionalString(args.project_name),
+        description: optionalString(args.description),
+        priority: priority.item,
+        phase: phase.item,
+        dueDate: dueDate.item
+      });
+    case 'update_task':
+      return invalidArgument(priority, phase, dueDate) ?? executeEditTask({
+        type: 'edit_task',
+        taskName: optionalString(args.task_name),
+        newName: optionalString(args.name),
+        description: optionalString(args.description),
+        priority: priority.item,
+        phase: phase.item,
+        dueDate: dueDate.item,
+        completed: typeof args.completed === 'boolean' ? args.completed : undefined
+      });
+    case 'assign_task':
+      return executeAssignment({
+        type: args.unassign === true ? 'unassign_task' : 'assign_task',
+        taskName: optionalString(args.task_name),
+        assignees: Array.isArray(args.assignees)
+          ? args.assignees.filter((name): name is string => typeof name === 'string' && !!name.trim())
+          : undefined
+      });
+    case 'create_note':
+      return executeAddNote({
+        type: 'add_note',
+        taskName: optionalString(args.task_name),
+        projectName: optionalString(args.project_name),
+        note: optionalString(args.content)
+      });
+    case 'create_reminder': {
+      const when = optionalString(args.when);
+      const reminderDate = when ? parseReminderDate(when) : undefined;
+      if (when && !reminderDate) {
+        return { content: `I couldn't understand the reminder time "${when}".`, error: 'Invalid argument' };
+      }
+      return executeAddReminder({
+        type: 'add_reminder',
+        taskName: optionalString(args.task_name),
+        projectName: optionalString(args.project_name),
+        message: optionalString(args.message),
+        reminderDate
+      });
+    }
+  }
+}
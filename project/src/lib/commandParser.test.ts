@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { parseCommand } from './commandParser';
+import { Project } from '../types';
+
+// Wednesday, March 12 2025, mid-morning
+const REFERENCE = new Date(2025, 2, 12, 10, 30);
+
+const PROJECTS = ['Website Redesign', 'Research and Development'].map((name, i) => ({ id: `p${i}`, name }) as Project);
+
+beforeAll(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(REFERENCE);
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe('parseCommand: add task', () => {
+  it.each([
+    ['add task write spec', { taskName: 'write spec' }],
+    ['add task write spec due in 3 days', { taskName: 'write spec', dueDate: '2025-03-15' }],
+    ['add task write spec due next friday', { taskName: 'write spec', dueDate: '2025-03-14' }],
+    ['add task write spec to website redesign', { taskName: 'write spec', projectName: 'website redesign' }],
+    ['add task budget to research and development', { taskName: 'budget', projectName: 'research and development' }],
+    ['add task budget for the research and development project', { taskName: 'budget', projectName: 'research and development' }],
+    ['add task talk to Bob', { taskName: 'talk to Bob' }],
+    ['add task talk to Bob in website redesign', { taskName: 'talk to Bob', projectName: 'website redesign' }],
+    ['add task plan launch for Q3', { taskName: 'plan launch for Q3' }],
+    [
+      'add task write spec to website redesign with high priority due tomorrow',
+      { taskName: 'write spec', projectName: 'website redesign', priority: 'High', dueDate: '2025-03-13' }
+    ],
+    ['create a task review copy in progress phase', { taskName: 'review copy', phase: 'In Progress' }],
+    ['add task fix login and signup', { taskName: 'fix login and signup' }]
+  ])('reads "%s"', (input, expected) => {
+    expect(parseCommand(input, PROJECTS)).toEqual({ type: 'add_task', ...expected });
+  });
+});
+
+describe('parseCommand: task queries', () => {
+  it.each([
+    ['show tasks for website redesign', { projectName: 'website redesign', query: {} }],
+    ['show completed tasks', { query: { completed: true } }],
+    ['find incomplete tasks matching login', { query: { completed: false, search: 'login' } }],
+    ['show my tasks', { assignees: ['me'], query: {} }],
+    ['show unassigned tasks', { query: { unassigned: true } }],
+    [
+      'show tasks assigned to priya in website redesign',
+      { assignees: ['priya'], projectName: 'website redesign', query: {} }
+    ],
+    ['show tasks due this week', { query: { dueAfter: '2025-03-10', dueBefore: '2025-03-16' } }],
+    ['show tasks due tomorrow', { query: { dueAfter: '2025-03-13', dueBefore: '2025-03-13' } }],
+    ['show top 5 tasks due in the next 14 days', { query: { limit: 5, dueAfter: '2025-03-12', dueBefore: '2025-03-26' } }],
+    ['show tasks due before friday', { query: { dueBefore: '2025-03-13' } }],
+    ['show tasks due after friday', { query: { dueAfter: '2025-03-15' } }],
+    ['show tasks due between mar 20 and mar 25', { query: { dueAfter: '2025-03-20', dueBefore: '2025-03-25' } }],
+    [
+      'show overdue high priority tasks in website redesign sorted by due date',
+      {
+        priority: 'High',
+        projectName: 'website redesign',
+        query: { overdue: true, priority: 'High', sortBy: 'due_date' }
+      }
+    ],
+    ['show tasks in progress phase newest first', { query: { phase: 'In Progress', sortBy: 'created_at', sortDirection: 'desc' } }]
+  ])('reads "%s"', (input, expected) => {
+    expect(parseCommand(input, PROJECTS)).toEqual({
+      type: 'show_tasks',
+      projectName: undefined,
+      priority: undefined,
+      assignees: undefined,
+      ...expected
+    });
+  });
+});
+
+describe('parseCommand: edit task', () => {
+  it.each([
+    ['edit write spec to set priority to high', { priority: 'High' }],
+    ['edit write spec to set due date to next friday', { dueDate: '2025-03-14' }],
+    ['edit write spec to set phase to on hold', { phase: 'On Hold' }],
+    [
+      'edit write spec to set priority to high and due date to in 3 days, phase to in progress',
+      { priority: 'High', dueDate: '2025-03-15', phase: 'In Progress' }
+    ],
+    ['edit write spec to set name to "Write the spec"', { newName: 'Write the spec' }],
+    [
+      'edit write spec to set description to draft and review the API and name to Spec',
+      { description: 'draft and review the API', newName: 'Spec' }
+    ],
+    ['edit write spec to set description to send it to Bob and Sam', { description: 'send it to Bob and Sam' }],
+    ['edit write spec to set name to hand off to QA', { newName: 'hand off to QA' }],
+    ['edit write spec to set priority to urgent', {}],
+    ['edit write spec to set due date to whenever', {}]
+  ])('reads "%s"', (input, expected) => {
+    expect(parseCommand(input, PROJECTS)).toEqual({ type: 'edit_task', taskName: 'write spec', ...expected });
+  });
+
+  it('keeps "to" inside the task name up to the first "to set"', () => {
+    expect(parseCommand('edit talk to bob to set priority to low', PROJECTS)).toEqual({
+      type: 'edit_task',
+      taskName: 'talk to bob',
+      priority: 'Low'
+    });
+  });
+});
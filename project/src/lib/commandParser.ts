@@ -1,5 +1,16 @@
-import { format, parse, addDays } from 'date-fns';
-import { Task, Project } from '../types';
+import {
+  format,
+  setHours,
+  addDays,
+  addWeeks,
+  addMonths,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth
+} from 'date-fns';
+import { Task, Project, TaskFilters } from '../types';
+import { parseNaturalDate } from './dateParser';
 
 export type CommandType = 
   | 'add_task'
@@ -7,7 +18,14 @@ export type CommandType =
   | 'show_tasks'
   | 'mark_tasks'
   | 'delete_tasks'
+  | 'archive_project'
+  | 'restore_project'
+  | 'assign_task'
+  | 'unassign_task'
   | 'add_note'
+  | 'add_reminder'
+  | 'undo'
+  | 'redo'
   | 'help'
   | 'unknown';
 
@@ -20,93 +38,62 @@ export interface ParsedCommand {
   dueDate?: string;
   note?: string;
   completed?: boolean;
+  reminderDate?: string;
+  message?: string;
+  newName?: string;
+  description?: string;
+  // People to assign or unassign, or to filter shown tasks by; "me" means the user
+  assignees?: string[];
+  query?: TaskFilters;
 }
 
-interface DateKeyword {
-  keyword: string;
-  getValue: () => Date;
-}
+// Reminders given without a time ("remind me friday") fire at the start of the work day
+const DEFAULT_REMINDER_HOUR = 9;
 
-const DATE_KEYWORDS: DateKeyword[] = [
-  {
-    keyword: 'today',
-    getValue: () => new Date()
-  },
-  {
-    keyword: 'tomorrow',
-    getValue: () => addDays(new Date(), 1)
-  },
-  {
-    keyword: 'next week',
-    getValue: () => addDays(new Date(), 7)
-  }
-];
-
-export function parseCommand(input: string): ParsedCommand {
+// Projects are used to tell "add task X to [project]" apart from task names like "talk to Bob"
+export function parseCommand(input: string, projects: Project[]): ParsedCommand {
   const normalizedInput = input.toLowerCase().trim();
 
+  // Add task commands
+  if (normalizedInput.match(/^(?:add|create|new)\s+(?:a\s+)?task\s+/)) {
+    return parseAddTask(input.trim(), projects);
+  }
+
   // Edit task commands
   if (normalizedInput.match(/^edit\s+(.+?)\s+to\s+set\s+/)) {
-    const taskMatch = normalizedInput.match(/^edit\s+(.+?)\s+to\s+set\s+/);
-    const taskName = taskMatch?.[1];
-
-    if (normalizedInput.includes('due date')) {
-      const dateMatch = normalizedInput.match(/due date to\s+(.+)$/);
-      if (dateMatch) {
-        const dateStr = dateMatch[1];
-        const date = parseDateFromString(dateStr);
-        return {
-          type: 'edit_task',
-          taskName,
-          dueDate: date ? format(date, 'yyyy-MM-dd') : undefined
-        };
-      }
-    }
-
-    if (normalizedInput.includes('priority')) {
-      const priorityMatch = normalizedInput.match(/priority to\s+(high|medium|low)/);
-      if (priorityMatch) {
-        const priority = priorityMatch[1].charAt(0).toUpperCase() + priorityMatch[1].slice(1) as 'High' | 'Medium' | 'Low';
-        return {
-          type: 'edit_task',
-          taskName,
-          priority
-        };
-      }
-    }
+    return parseEditTask(input.trim());
+  }
 
-    if (normalizedInput.includes('phase')) {
-      const phaseMatch = normalizedInput.match(/phase to\s+(planning|in progress|on hold|completed)/);
-      if (phaseMatch) {
-        const phase = phaseMatch[1].split(' ').map(word => 
-          word.charAt(0).toUpperCase() + word.slice(1)
-        ).join(' ') as 'Planning' | 'In Progress' | 'On Hold' | 'Completed';
-        return {
-          type: 'edit_task',
-          taskName,
-          phase
-        };
-      }
-    }
+  // "assign design homepage to priya and sam" / "unassign sam from design homepage"
+  if (normalizedInput.match(/^assign\s+/)) {
+    const match = input.trim().match(/^assign\s+(?:task\s+)?(.+)\s+to\s+(.+)$/i);
+    return {
+      type: 'assign_task',
+      taskName: match?.[1].toLowerCase(),
+      assignees: match ? splitNames(match[2]) : undefined
+    };
+  }
+  if (normalizedInput.match(/^unassign\s+/)) {
+    const match = input.trim().match(/^unassign\s+(.+?)\s+from\s+(?:task\s+)?(.+)$/i);
+    return {
+      type: 'unassign_task',
+      taskName: match?.[2].toLowerCase(),
+      assignees: match ? splitNames(match[1]) : undefined
+    };
   }
 
   // Show tasks commands
   if (normalizedInput.startsWith('show') || normalizedInput.startsWith('find')) {
-    const projectMatch = normalizedInput.match(/(?:for|in)\s+(.+?)(?:\s+with|$)/);
-    const priorityMatch = normalizedInput.match(/with\s+(high|medium|low)\s+priority/);
-    
-    return {
-      type: 'show_tasks',
-      projectName: projectMatch?.[1],
-      priority: priorityMatch ? (priorityMatch[1].charAt(0).toUpperCase() + priorityMatch[1].slice(1)) as 'High' | 'Medium' | 'Low' : undefined
-    };
+    return parseTaskQuery(normalizedInput);
   }
 
   // Mark tasks completed
   if (normalizedInput.startsWith('mark')) {
+    const taskMatch = normalizedInput.match(/^mark\s+task\s+(.+?)\s+as\s+completed/);
     const projectMatch = normalizedInput.match(/in\s+(.+?)\s+as\s+completed/);
     return {
       type: 'mark_tasks',
+      taskName: taskMatch?.[1],
       projectName: projectMatch?.[1],
       completed: true
     };
@@ -114,24 +101,47 @@ export function parseCommand(input: string): ParsedCommand {
 
   // Delete tasks
   if (normalizedInput.startsWith('delete')) {
+    const taskMatch = normalizedInput.match(/^delete\s+task\s+(.+)$/);
     return {
       type: 'delete_tasks',
+      taskName: taskMatch?.[1],
       completed: normalizedInput.includes('completed')
     };
   }
 
   // Add note
   if (normalizedInput.startsWith('add note') || normalizedInput.startsWith('add a note')) {
-    const matches = normalizedInput.match(/add (?:a )?note to\s+(.+?)\s+saying\s+(.+)$/);
+    // Match against the original input so the note keeps its casing
+    const matches = input.trim().match(/add (?:a )?note to\s+(.+?)\s+saying\s+(.+)$/i);
     if (matches) {
       return {
         type: 'add_note',
-        taskName: matches[1],
+        taskName: matches[1].toLowerCase(),
         note: matches[2]
       };
     }
   }
 
+  // Reminders
+  if (normalizedInput.match(/^remind\s+(?:me|us)\s+/)) {
+    return parseReminder(input.trim());
+  }
+
+  // "archive project website" / "restore project website" / "unarchive website"
+  const archive = input.trim().match(/^(archive|unarchive|restore)\s+(?:the\s+)?(project\s+)?(.+?)(?:\s+project)?$/i);
+  if (archive && (archive[1].toLowerCase() !== 'restore' || archive[2])) {
+    return {
+      type: archive[1].toLowerCase() === 'archive' ? 'archive_project' : 'restore_project',
+      projectName: archive[3].toLowerCase()
+    };
+  }
+
+  // "undo", "undo that", "undo last change", "redo"
+  const history = normalizedInput.match(/^(undo|redo)(?:\s+(?:that|it|the\s+last\s+change|last\s+change))?[.!]?$/);
+  if (history) {
+    return { type: history[1] as 'undo' | 'redo' };
+  }
+
   // Help command
   if (normalizedInput === 'help' || normalizedInput === '?') {
     return { type: 'help' };
@@ -140,19 +150,299 @@ export function parseCommand(input: string): ParsedCommand {
   return { type: 'unknown' };
 }
 
-function parseDateFromString(dateStr: string): Date | null {
-  // Check for keywords first
-  const keyword = DATE_KEYWORDS.find(dk => dateStr.includes(dk.keyword));
-  if (keyword) {
-    return keyword.getValue();
+// "priya, sam and alex" -> ['priya', 'sam', 'alex']
+function splitNames(value: string): string[] {
+  return value
+    .split(/\s*,\s*(?:and\s+)?|\s+and\s+|\s*&\s*/i)
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+// Splits "write spec to website redesign with high priority due tomorrow" into
+// the task name followed by one segment per clause
+const ADD_TASK_CLAUSE_BOUNDARY = /\s+(?=(?:to|in|for|with|due|and|phase)\s|(?:high|medium|low)\s+priority\b)/i;
+
+function toPriority(value: string): 'High' | 'Medium' | 'Low' {
+  return (value.charAt(0).toUpperCase() + value.slice(1).toLowerCase()) as 'High' | 'Medium' | 'Low';
+}
+
+function toPhase(value: string): 'Planning' | 'In Progress' | 'On Hold' | 'Completed' {
+  return value.toLowerCase().split(/\s+/).map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ') as 'Planning' | 'In Progress' | 'On Hold' | 'Completed';
+}
+
+// Same rule the executor resolves project names with: an exact name, or part of one
+function namesProject(name: string, projects: Project[]): boolean {
+  return projects.some(project => project.name.toLowerCase().includes(name));
+}
+
+function parseAddTask(input: string, projects: Project[]): ParsedCommand {
+  const body = input.replace(/^(?:add|create|new)\s+(?:a\s+)?task\s+/i, '');
+  const [name, ...clauses] = body.split(ADD_TASK_CLAUSE_BOUNDARY);
+  const command: ParsedCommand = { type: 'add_task', taskName: name.trim() };
+
+  for (let i = 0; i < clauses.length; i++) {
+    const rawClause = clauses[i];
+    const clause = rawClause.replace(/^and\s+/i, '').trim().toLowerCase();
+    if (clause === 'with' || clause === 'and') continue;
+
+    const priorityMatch = clause.match(/^(?:with\s+)?(?:(high|medium|low)\s+priority|priority\s+(?:of\s+)?(high|medium|low))$/);
+    if (priorityMatch) {
+      command.priority = toPriority(priorityMatch[1] || priorityMatch[2]);
+      continue;
+    }
+
+    const phaseMatch = clause.match(/^(?:(?:with|in)\s+)?(?:phase\s+)?(planning|in progress|on hold|completed)(?:\s+phase)?$/);
+    if (phaseMatch) {
+      command.phase = toPhase(phaseMatch[1]);
+      continue;
+    }
+
+    // Dates and project names can contain clause words ("due in 3 days", "to research and
+    // development"), so take the longest run of clauses that still reads as one
+    let end = clauses.length;
+    for (; end > i; end--) {
+      const run = [clause, ...clauses.slice(i + 1, end).map(part => part.trim().toLowerCase())].join(' ');
+
+      const dueMatch = run.match(/^due\s+(?:on\s+|by\s+)?(.+)$/);
+      const dueDate = dueMatch && parseDateFromString(dueMatch[1]);
+      if (dueDate) {
+        command.dueDate = format(dueDate, 'yyyy-MM-dd');
+        break;
+      }
+
+      const projectMatch = run.match(/^(?:to|in|for)\s+(?:the\s+)?(?:project\s+)?(.+?)(?:\s+project)?$/);
+      if (projectMatch && namesProject(projectMatch[1], projects)) {
+        command.projectName = projectMatch[1];
+        break;
+      }
+    }
+    if (end > i) {
+      i = end - 1;
+      continue;
+    }
+
+    // Anything we can't classify belongs to the task name
+    command.taskName = `${command.taskName} ${rawClause.trim()}`;
   }
 
-  // Try parsing explicit date format
-  try {
-    return parse(dateStr, 'yyyy-MM-dd', new Date());
-  } catch {
-    return null;
+  return command;
+}
+
+// Splits "priority to high and due date to friday, phase to in progress" into one
+// assignment per field without breaking descriptions that contain "and"
+const EDIT_ASSIGNMENT_BOUNDARY = /\s*(?:,\s*(?:and\s+)?|\s+and\s+)(?=(?:the\s+)?(?:due date|due|priority|phase|name|title|description)\s+(?:to|=|as)\s)/i;
+
+function parseEditTask(input: string): ParsedCommand {
+  const match = input.match(/^edit\s+(.+?)\s+to\s+set\s+(.+)$/i);
+  const command: ParsedCommand = {
+    type: 'edit_task',
+    taskName: match?.[1].toLowerCase()
+  };
+  if (!match) return command;
+
+  for (const assignment of match[2].split(EDIT_ASSIGNMENT_BOUNDARY)) {
+    const fieldMatch = assignment.trim().match(/^(?:the\s+)?(due date|due|priority|phase|name|title|description)\s+(?:to|=|as)\s+(.+)$/i);
+    if (!fieldMatch) continue;
+
+    const field = fieldMatch[1].toLowerCase();
+    const value = fieldMatch[2].trim().replace(/^["'](.*)["']$/, '$1');
+
+    switch (field) {
+      case 'due date':
+      case 'due': {
+        const date = parseDateFromString(value);
+        if (date) command.dueDate = format(date, 'yyyy-MM-dd');
+        break;
+      }
+      case 'priority': {
+        const priorityMatch = value.toLowerCase().match(/^(high|medium|low)(?:\s+priority)?$/);
+        if (priorityMatch) command.priority = toPriority(priorityMatch[1]);
+        break;
+      }
+      case 'phase': {
+        const phaseMatch = value.toLowerCase().match(/^(planning|in progress|on hold|completed)$/);
+        if (phaseMatch) command.phase = toPhase(phaseMatch[1]);
+        break;
+      }
+      case 'name':
+      case 'title':
+        command.newName = value;
+        break;
+      case 'description':
+        command.description = value;
+        break;
+    }
   }
+
+  return command;
+}
+
+// Where a free-text value in a query ("in mobile app", "matching login") stops
+const QUERY_VALUE_END = '(?=\\s+(?:in|for|with|due|overdue|sorted|ordered|sort|order|limit|top|first|matching|containing|named|assigned|unassigned)\\b|\\s*$)';
+
+const QUERY_SORT_FIELDS: Record<string, NonNullable<TaskFilters['sortBy']>> = {
+  name: 'name',
+  priority: 'priority',
+  'due date': 'due_date',
+  due: 'due_date',
+  deadline: 'due_date',
+  phase: 'phase',
+  created: 'created_at',
+  'creation date': 'created_at'
+};
+
+function dayString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// "show overdue high priority tasks in mobile app sorted by due date"
+function parseTaskQuery(input: string): ParsedCommand {
+  const query: TaskFilters = {};
+  let projectName: string | undefined;
+  let rest = ` ${input.replace(/^(?:show|find)\s*(?:me\s+)?/, '')} `;
+
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(match[0], ' ');
+    return match;
+  };
+
+  const sort = take(/\s(?:sorted|sort|ordered|order)\s+by\s+(due date|due|deadline|name|priority|phase|creation date|created)(?:\s+(asc|ascending|desc|descending))?(?=\s)/);
+  if (sort) {
+    query.sortBy = QUERY_SORT_FIELDS[sort[1]];
+    if (sort[2]) query.sortDirection = sort[2].startsWith('asc') ? 'asc' : 'desc';
+  }
+  if (take(/\s(?:newest|latest|most recent)(?:\s+first)?(?=\s)/)) {
+    query.sortBy = 'created_at';
+    query.sortDirection = 'desc';
+  }
+
+  const limit = take(/\s(?:top|first|limit(?:\s+to)?)\s+(\d+)(?=\s)/);
+  if (limit) query.limit = parseInt(limit[1], 10);
+
+  let assignees: string[] | undefined;
+  const assignee = take(new RegExp(`\\sassigned\\s+to\\s+(.+?)${QUERY_VALUE_END}`));
+  if (assignee) {
+    assignees = [assignee[1].trim()];
+  } else if (take(/^\s+my(?=\s)/) || take(/\smine(?=\s)/)) {
+    assignees = ['me'];
+  } else if (take(/\sunassigned(?=\s)/)) {
+    query.unassigned = true;
+  }
+
+  const search = take(new RegExp(`\\s(?:matching|containing|named|mentioning|about)\\s+["']?(.+?)["']?${QUERY_VALUE_END}`));
+  if (search) query.search = search[1].trim();
+
+  const today = new Date();
+  if (take(/\s(?:overdue|past due|late)(?=\s)/)) {
+    query.overdue = true;
+  }
+
+  const upcoming = take(/\sdue\s+(?:in\s+the\s+)?next\s+(\d+)\s+days(?=\s)/);
+  const namedRange = !upcoming && take(/\sdue\s+(today|tomorrow|this week|next week|this month|next month)(?=\s)/);
+  if (upcoming) {
+    query.dueAfter = dayString(today);
+    query.dueBefore = dayString(addDays(today, parseInt(upcoming[1], 10)));
+  } else if (namedRange) {
+    const ranges: Record<string, [Date, Date]> = {
+      today: [today, today],
+      tomorrow: [addDays(today, 1), addDays(today, 1)],
+      'this week': [startOfWeek(today, { weekStartsOn: 1 }), endOfWeek(today, { weekStartsOn: 1 })],
+      'next week': [startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 }), endOfWeek(addWeeks(today, 1), { weekStartsOn: 1 })],
+      'this month': [startOfMonth(today), endOfMonth(today)],
+      'next month': [startOfMonth(addMonths(today, 1)), endOfMonth(addMonths(today, 1))]
+    };
+    const [from, to] = ranges[namedRange[1]];
+    query.dueAfter = dayString(from);
+    query.dueBefore = dayString(to);
+  } else {
+    const between = take(new RegExp(`\\sdue\\s+between\\s+(.+?)\\s+and\\s+(.+?)${QUERY_VALUE_END}`));
+    const bounded = !between && take(new RegExp(`\\sdue\\s+(before|by|after|on)\\s+(.+?)${QUERY_VALUE_END}`));
+    if (between) {
+      const from = parseDateFromString(between[1]);
+      const to = parseDateFromString(between[2]);
+      if (from) query.dueAfter = dayString(from);
+      if (to) query.dueBefore = dayString(to);
+    } else if (bounded) {
+      const date = parseDateFromString(bounded[2]);
+      if (date && bounded[1] === 'before') {
+        query.dueBefore = dayString(addDays(date, -1));
+      } else if (date && bounded[1] === 'by') {
+        query.dueBefore = dayString(date);
+      } else if (date && bounded[1] === 'after') {
+        query.dueAfter = dayString(addDays(date, 1));
+      } else if (date) {
+        query.dueAfter = dayString(date);
+        query.dueBefore = dayString(date);
+      }
+    }
+  }
+
+  const priority = take(/\s(?:with\s+)?(?:(high|medium|low)[\s-]+priority|priority\s+(high|medium|low))(?=\s)/);
+  if (priority) query.priority = toPriority(priority[1] || priority[2]);
+
+  const phase = take(/\s(?:in\s+(?:the\s+)?)?(?:phase\s+(planning|in progress|on hold|completed)|(planning|in progress|on hold|completed)\s+phase|(planning|in progress|on hold))(?=\s)/);
+  if (phase) query.phase = toPhase(phase[1] || phase[2] || phase[3]);
+
+  if (take(/\s(?:incomplete|unfinished|open|pending|outstanding|remaining|not completed|not done)(?=\s)/)) {
+    query.completed = false;
+  } else if (take(/\s(?:completed|done|finished)(?=\s)/)) {
+    query.completed = true;
+  }
+
+  const project = take(new RegExp(`\\s(?:for|in)\\s+(?:the\\s+)?(?:project\\s+)?(.+?)(?:\\s+project)?${QUERY_VALUE_END}`));
+  if (project) projectName = project[1].trim();
+
+  return {
+    type: 'show_tasks',
+    projectName,
+    priority: query.priority,
+    assignees,
+    query
+  };
+}
+
+// "remind me about design homepage tomorrow at 3pm" / "remind me to call the client next friday"
+function parseReminder(input: string): ParsedCommand {
+  const match = input.match(/^remind\s+(?:me|us)\s+(to|about|that)?\s*(.+)$/i);
+  const linkKind = match?.[1]?.toLowerCase();
+  const words = (match?.[2] ?? '').split(/\s+/);
+
+  // Take the longest trailing phrase that reads as a date; the rest is the message
+  for (let i = 1; i < words.length; i++) {
+    const reminderDate = parseReminderDate(words.slice(i).join(' '));
+    if (!reminderDate) continue;
+
+    const message = words.slice(0, i).join(' ');
+    return {
+      type: 'add_reminder',
+      taskName: linkKind === 'about' ? message.toLowerCase() : undefined,
+      message,
+      reminderDate
+    };
+  }
+
+  return { type: 'add_reminder', message: match?.[2] };
+}
+
+function parseDateFromString(dateStr: string): Date | null {
+  return parseNaturalDate(dateStr)?.date ?? null;
+}
+
+// Due dates are stored as plain `date` columns
+export function parseDueDate(dateStr: string): string | undefined {
+  const date = parseDateFromString(dateStr);
+  return date ? format(date, 'yyyy-MM-dd') : undefined;
+}
+
+// Reminders are stored as timestamps, so fill in a time when only a day was given
+export function parseReminderDate(dateStr: string): string | undefined {
+  const parsed = parseNaturalDate(dateStr);
+  if (!parsed) return undefined;
+  const date = parsed.hasTime ? parsed.date : setHours(parsed.date, DEFAULT_REMINDER_HOUR);
+  return date.toISOString();
 }
 
 export function generateSuggestions(input: string, projects: Project[], tasks: Task[]): string[] {
@@ -162,19 +452,33 @@ export function generateSuggestions(input: string, projects: Project[], tasks: T
   if (normalizedInput.startsWith('add')) {
     suggestions.push(
       'add task [name]',
+      'add task [name] to [project] with high priority due tomorrow',
       'add note to [task] saying [content]'
     );
   } else if (normalizedInput.startsWith('edit')) {
     suggestions.push(
-      'edit [task] to set due date to [YYYY-MM-DD]',
+      'edit [task] to set due date to [next friday/in 3 days/YYYY-MM-DD]',
       'edit [task] to set priority to [high/medium/low]',
-      'edit [task] to set phase to [planning/in progress/on hold/completed]'
+      'edit [task] to set phase to [planning/in progress/on hold/completed]',
+      'edit [task] to set priority to high and due date to friday',
+      'edit [task] to set name to [new name] and description to [text]'
     );
   } else if (normalizedInput.startsWith('show') || normalizedInput.startsWith('find')) {
     suggestions.push(
       'show tasks for [project]',
       'show tasks with high priority',
-      'show tasks due this week'
+      'show tasks due this week',
+      'show my tasks',
+      'show tasks assigned to [person] in [project]',
+      'show overdue high priority tasks in [project] sorted by due date',
+      'find incomplete tasks matching [text]',
+      'show top 5 tasks due in the next 14 days'
+    );
+  } else if (normalizedInput.startsWith('assign') || normalizedInput.startsWith('unassign')) {
+    suggestions.push(
+      'assign [task] to [person]',
+      'assign [task] to me',
+      'unassign [person] from [task]'
     );
   } else if (normalizedInput.startsWith('mark')) {
     suggestions.push(
@@ -186,6 +490,15 @@ export function generateSuggestions(input: string, projects: Project[], tasks: T
       'delete completed tasks',
       'delete task [name]'
     );
+  } else if (normalizedInput.startsWith('archive')) {
+    suggestions.push('archive project [project]');
+  } else if (normalizedInput.startsWith('restore') || normalizedInput.startsWith('unarchive')) {
+    suggestions.push('restore project [name]');
+  } else if (normalizedInput.startsWith('remind')) {
+    suggestions.push(
+      'remind me about [task] tomorrow at 9am',
+      'remind me to [message] next friday'
+    );
   }
 
   // Replace placeholders with actual project and task names
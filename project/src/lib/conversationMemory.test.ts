@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConversationMemory, estimateTokens } from './conversationMemory';
+import { ChatMessage, MockLLMProvider } from './llmProviders';
+import { LLMService } from './llm';
+
+const SYSTEM: ChatMessage[] = [{ role: 'system', content: 'You are a project assistant.' }];
+
+// 40 characters each, so every turn costs 14 tokens
+const user = (n: number): ChatMessage => ({ role: 'user', content: `question ${n}`.padEnd(40, '.') });
+const assistant = (n: number): ChatMessage => ({ role: 'assistant', content: `answer ${n}`.padEnd(40, '.') });
+
+const countTokens = (messages: ChatMessage[]) => messages.reduce((total, message) => total + estimateTokens(message), 0);
+
+function memoryWith(exchanges: number, maxTokens: number, summarize = vi.fn(async () => 'summary')) {
+  const memory = new ConversationMemory({ maxTokens, summarize });
+  for (let n = 1; n <= exchanges; n++) {
+    memory.push(user(n));
+    memory.push(assistant(n));
+  }
+  return { memory, summarize };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('ConversationMemory', () => {
+  it('leaves turns alone while they fit the budget', async () => {
+    const { memory, summarize } = memoryWith(3, 1000);
+    await memory.compact(SYSTEM);
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(memory.build(SYSTEM)).toEqual([...SYSTEM, user(1), assistant(1), user(2), assistant(2), user(3), assistant(3)]);
+  });
+
+  it('folds the oldest exchanges into the summary once over budget', async () => {
+    const { memory, summarize } = memoryWith(6, 100);
+    await memory.compact(SYSTEM);
+
+    // Half of what's left after the system prompt is kept, which is one exchange here
+    expect(summarize).toHaveBeenCalledWith([1, 2, 3, 4, 5].flatMap(n => [user(n), assistant(n)]), '');
+    const built = memory.build(SYSTEM);
+    expect(built).toEqual([
+      ...SYSTEM,
+      { role: 'system', content: 'Summary of the earlier conversation:\nsummary' },
+      user(6),
+      assistant(6)
+    ]);
+    expect(countTokens(built)).toBeLessThanOrEqual(100);
+  });
+
+  it('cuts only before a user turn so tool calls stay with their results', async () => {
+    const memory = new ConversationMemory({ maxTokens: 60, summarize: async () => 'summary' });
+    memory.push(user(1));
+    memory.push({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'create_task', arguments: '{}' } }]
+    });
+    memory.push({ role: 'tool', tool_call_id: 'call_1', content: 'Created the task.' });
+    memory.push(user(2));
+    memory.push(assistant(2));
+    await memory.compact(SYSTEM);
+
+    expect(memory.build(SYSTEM).slice(2)).toEqual([user(2), assistant(2)]);
+  });
+
+  it('keeps the latest exchange even when it alone is over budget', async () => {
+    const { memory, summarize } = memoryWith(2, 20);
+    await memory.compact(SYSTEM);
+
+    expect(summarize).toHaveBeenCalledWith([user(1), assistant(1)], '');
+    expect(memory.build(SYSTEM).slice(-2)).toEqual([user(2), assistant(2)]);
+  });
+
+  it('rolls the previous summary into the next one', async () => {
+    const summarize = vi.fn(async (_turns: ChatMessage[], previous: string) => (previous ? `${previous} + more` : 'first'));
+    const { memory } = memoryWith(6, 100, summarize);
+    await memory.compact(SYSTEM);
+    for (let n = 7; n <= 10; n++) {
+      memory.push(user(n));
+      memory.push(assistant(n));
+    }
+    await memory.compact(SYSTEM);
+
+    expect(summarize).toHaveBeenLastCalledWith(expect.any(Array), 'first');
+    expect(memory.getSummary()).toBe('first + more');
+  });
+
+  it("keeps the user's requests when the summarizer fails", async () => {
+    const summarize = vi.fn(async () => {
+      throw new Error('offline');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { memory } = memoryWith(6, 100, summarize);
+    await memory.compact(SYSTEM);
+
+    expect(memory.getSummary()).toBe(
+      [1, 2, 3, 4, 5].map(n => `- User: ${user(n).content}`).join('\n')
+    );
+  });
+});
+
+describe('LLMService.restoreHistory', () => {
+  const history = Array.from({ length: 8 }, (_, i) => [
+    { type: 'user' as const, content: `question ${i + 1}`.padEnd(200, '.') },
+    { type: 'assistant' as const, content: `answer ${i + 1}`.padEnd(200, '.') }
+  ]).flat();
+
+  it('summarizes a restored thread that no longer fits, so earlier turns survive', async () => {
+    const provider = new MockLLMProvider({
+      script: [{ content: 'The user is planning a launch.' }, { content: 'Sure.' }]
+    });
+    const service = new LLMService(provider, 800);
+    service.restoreHistory(history);
+    await service.processMessage('what did we decide?');
+
+    const [summaryRequest, reply] = provider.requests;
+    expect(summaryRequest.messages[1].content).toContain('question 1');
+    expect(reply.messages).toContainEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation:\nThe user is planning a launch.'
+    });
+    expect(reply.messages.some(message => message.content?.startsWith('question 1'))).toBe(false);
+    expect(reply.messages[reply.messages.length - 1]).toEqual({ role: 'user', content: 'what did we decide?' });
+  });
+
+  it("doesn't carry one thread's summary into another", async () => {
+    const provider = new MockLLMProvider({
+      script: [{ content: 'Summary of thread A.' }, { content: 'Sure.' }, { content: 'Hello.' }]
+    });
+    const service = new LLMService(provider, 800);
+    service.restoreHistory(history);
+    await service.processMessage('what did we decide?');
+
+    service.restoreHistory([{ type: 'user', content: 'hi' }, { type: 'assistant', content: 'Hello!' }]);
+    await service.processMessage('and now?');
+
+    const last = provider.requests[provider.requests.length - 1];
+    expect(last.messages.some(message => message.content?.includes('Summary of thread A.'))).toBe(false);
+  });
+});
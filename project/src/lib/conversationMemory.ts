@@ -0,0 +1,99 @@
+import { ChatMessage } from './llmProviders';
+
+export interface ConversationMemoryOptions {
+  // Total token budget for the prompt, including system messages
+  maxTokens: number;
+  // Rolls older turns into the running summary; previousSummary is empty on the first call
+  summarize: (turns: ChatMessage[], previousSummary: string) => Promise<string>;
+}
+
+// Rough heuristic (~4 characters per token) plus per-message overhead; close enough for budgeting
+export function estimateTokens(message: ChatMessage): number {
+  const toolCalls = message.tool_calls ? JSON.stringify(message.tool_calls) : '';
+  return Math.ceil(((message.content?.length ?? 0) + toolCalls.length) / 4) + 4;
+}
+
+const countTokens = (messages: ChatMessage[]) =>
+  messages.reduce((total, message) => total + estimateTokens(message), 0);
+
+/**
+ * Keeps the conversation turns within a token budget. System context is not
+ * stored here; callers pass it fresh to build() on every request. When the
+ * turns outgrow the budget, the oldest ones are folded into a running summary
+ * so earlier decisions survive.
+ */
+export class ConversationMemory {
+  private turns: ChatMessage[] = [];
+  private summary = '';
+
+  constructor(private readonly options: ConversationMemoryOptions) {}
+
+  push(message: ChatMessage) {
+    this.turns.push(message);
+  }
+
+  pop(): ChatMessage | undefined {
+    return this.turns.pop();
+  }
+
+  clear() {
+    this.turns = [];
+    this.summary = '';
+  }
+
+  getSummary(): string {
+    return this.summary;
+  }
+
+  build(systemMessages: ChatMessage[]): ChatMessage[] {
+    return [
+      ...systemMessages,
+      ...(this.summary
+        ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${this.summary}` }]
+        : []),
+      ...this.turns
+    ];
+  }
+
+  async compact(systemMessages: ChatMessage[]) {
+    if (countTokens(this.build(systemMessages)) <= this.options.maxTokens) return;
+
+    // Leave room for the summary itself so the next few turns fit without compacting again
+    const keepBudget = Math.floor((this.options.maxTokens - countTokens(systemMessages)) / 2);
+    const cut = this.findCut(keepBudget);
+    if (cut === 0) return;
+
+    const older = this.turns.slice(0, cut);
+    try {
+      this.summary = await this.options.summarize(older, this.summary);
+    } catch (error) {
+      console.error('Error summarizing conversation:', error);
+      this.summary = fallbackSummary(older, this.summary);
+    }
+    this.turns = this.turns.slice(cut);
+  }
+
+  // Index of the first kept turn. Cuts only land on user turns so an assistant
+  // tool call is never separated from its results.
+  private findCut(keepBudget: number): number {
+    let kept = 0;
+    let cut = this.turns.length;
+    for (let i = this.turns.length - 1; i >= 0; i--) {
+      kept += estimateTokens(this.turns[i]);
+      if (this.turns[i].role === 'user') {
+        // Always keep the latest exchange, even if it alone exceeds the budget
+        if (kept > keepBudget && cut < this.turns.length) break;
+        cut = i;
+      }
+    }
+    return cut === this.turns.length ? 0 : cut;
+  }
+}
+
+// Used when the summarizer fails: keep what the user asked for so nothing is silently lost
+function fallbackSummary(turns: ChatMessage[], previousSummary: string): string {
+  const requests = turns
+    .filter(turn => turn.role === 'user' && turn.content)
+    .map(turn => `- User: ${turn.content!.slice(0, 200)}`);
+  return [previousSummary, ...requests].filter(Boolean).join('\n');
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { parseNaturalDate } from './dateParser';
+
+// Wednesday, March 12 2025, mid-morning
+const REFERENCE = new Date(2025, 2, 12, 10, 30);
+
+const formatParsed = (input: string) => {
+  const parsed = parseNaturalDate(input, REFERENCE);
+  return parsed && { date: format(parsed.date, 'yyyy-MM-dd HH:mm'), hasTime: parsed.hasTime };
+};
+
+describe('parseNaturalDate', () => {
+  it.each([
+    ['next friday', '2025-03-14 00:00', false],
+    ['in 3 days', '2025-03-15 00:00', false],
+    ['end of month', '2025-03-31 00:00', false],
+    ['Dec 5', '2025-12-05 00:00', false],
+    ['jan 5', '2026-01-05 00:00', false],
+    ['Q3', '2025-09-30 00:00', false],
+    ['tomorrow at 3pm', '2025-03-13 15:00', true],
+    ['due 2025-04-01', '2025-04-01 00:00', false]
+  ])('reads "%s" as %s', (input, date, hasTime) => {
+    expect(formatParsed(input)).toEqual({ date, hasTime });
+  });
+
+  it.each(['', 'whenever', 'feb 30', 'tomorrow at 25pm', 'next fridayish'])('rejects "%s"', (input) => {
+    expect(parseNaturalDate(input, REFERENCE)).toBeNull();
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  addDays,
+  addWeeks,
+  addMonths,
+  addYears,
+  addHours,
+  addMinutes,
+  startOfDay,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  startOfQuarter,
+  endOfQuarter,
+  startOfYear,
+  endOfYear,
+  setQuarter,
+  setHours,
+  setMinutes,
+  nextDay,
+  isBefore,
+  isValid,
+  Day
+} from 'date-fns';
+
+export interface ParsedDate {
+  date: Date;
+  // False when only a day was given, so callers can pick their own default time
+  hasTime: boolean;
+}
+
+type Unit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+type Period = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const WEEKDAYS: Record<string, Day> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0,
+  feb: 1, february: 1,
+  mar: 2, march: 2,
+  apr: 3, april: 3,
+  may: 4,
+  jun: 5, june: 5,
+  jul: 6, july: 6,
+  aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9,
+  nov: 10, november: 10,
+  dec: 11, december: 11
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+const NAMED_TIMES: Record<string, number> = {
+  morning: 9,
+  noon: 12,
+  midday: 12,
+  afternoon: 15,
+  evening: 18,
+  tonight: 20,
+  night: 20,
+  midnight: 0
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).join('|');
+const MONTH_PATTERN = Object.keys(MONTHS).join('|');
+
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value] ?? parseInt(value, 10);
+}
+
+function addUnits(date: Date, amount: number, unit: Unit): Date {
+  switch (unit) {
+    case 'minute': return addMinutes(date, amount);
+    case 'hour': return addHours(date, amount);
+    case 'day': return addDays(date, amount);
+    case 'week': return addWeeks(date, amount);
+    case 'month': return addMonths(date, amount);
+    case 'year': return addYears(date, amount);
+  }
+}
+
+function boundaryOf(date: Date, period: Period, edge: 'start' | 'end'): Date {
+  const start = edge === 'start';
+  switch (period) {
+    case 'day': return date;
+    case 'week': return start ? startOfWeek(date, WEEK_OPTIONS) : endOfWeek(date, WEEK_OPTIONS);
+    case 'month': return start ? startOfMonth(date) : endOfMonth(date);
+    case 'quarter': return start ? startOfQuarter(date) : endOfQuarter(date);
+    case 'year': return start ? startOfYear(date) : endOfYear(date);
+  }
+}
+
+// Builds a calendar date and rejects overflow such as Feb 30
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// Dates without a year roll forward so "Jan 5" in December means next January
+function upcomingCalendarDate(month: number, day: number, year: number | undefined, today: Date): Date | null {
+  const date = calendarDate(year ?? today.getFullYear(), month, day);
+  if (date && year === undefined && isBefore(date, today)) {
+    return calendarDate(today.getFullYear() + 1, month, day);
+  }
+  return date;
+}
+
+function parseTime(input: string): { hours: number; minutes: number } | null {
+  const named = input.match(/^(?:in the\s+)?(morning|noon|midday|afternoon|evening|tonight|night|midnight)$/);
+  if (named) {
+    return { hours: NAMED_TIMES[named[1]], minutes: 0 };
+  }
+
+  const clock = input.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/);
+  if (!clock) return null;
+
+  let hours = parseInt(clock[1], 10);
+  const minutes = clock[2] ? parseInt(clock[2], 10) : 0;
+  const meridiem = clock[3]?.replace(/\./g, '');
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'pm' && hours !== 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
+
+// Splits "tomorrow at 3pm" / "at 3pm tomorrow" / "friday morning" into date and time parts
+function splitTime(input: string): { datePart: string; time: { hours: number; minutes: number } | null } {
+  const suffix = input.match(/^(.*?)\s*(?:\bat\s+|@\s*)(.+)$/)
+    || input.match(/^(.*?)\s*\b(\d{1,2}(?::\d{2})?\s*(?:am|pm|a\.m\.|p\.m\.))$/)
+    || input.match(/^(.*?)\s*\b(\d{1,2}:\d{2})$/)
+    || input.match(/^(.*?)\s*\b((?:in the\s+)?(?:morning|noon|midday|afternoon|evening|night|midnight))$/);
+  if (suffix) {
+    const time = parseTime(suffix[2].trim());
+    if (time) return { datePart: suffix[1].trim(), time };
+  }
+
+  const prefix = input.match(/^(?:at\s+)?(\d{1,2}(?::\d{2})?\s*(?:am|pm)|noon|midnight)\s+(?:on\s+)?(.+)$/);
+  if (prefix) {
+    const time = parseTime(prefix[1]);
+    if (time) return { datePart: prefix[2].trim(), time };
+  }
+
+  return { datePart: input, time: null };
+}
+
+function parseDatePart(input: string, now: Date): { date: Date; hasTime?: boolean } | null {
+  const today = startOfDay(now);
+
+  if (input === '' || input === 'today') return { date: today };
+  if (input === 'now') return { date: now, hasTime: true };
+  if (input === 'tonight') return { date: setHours(today, NAMED_TIMES.tonight), hasTime: true };
+  if (input === 'tomorrow' || input === 'tmrw' || input === 'tmr') return { date: addDays(today, 1) };
+  if (input === 'day after tomorrow') return { date: addDays(today, 2) };
+  if (input === 'yesterday') return { date: addDays(today, -1) };
+
+  // "next week", "next month", "next year"
+  const nextUnit = input.match(/^next (week|month|year)$/);
+  if (nextUnit) {
+    return { date: addUnits(today, 1, nextUnit[1] as Unit) };
+  }
+
+  // "in 3 days", "in a week", "2 weeks from now", "in 90 minutes"
+  const relative = input.match(/^(?:in\s+)?(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(minute|hour|day|week|month|year)s?(?:\s+from\s+now)?$/);
+  if (relative && (input.startsWith('in ') || input.endsWith('from now'))) {
+    const unit = relative[2] as Unit;
+    const amount = toNumber(relative[1]);
+    if (unit === 'minute' || unit === 'hour') {
+      return { date: addUnits(now, amount, unit), hasTime: true };
+    }
+    return { date: addUnits(today, amount, unit) };
+  }
+
+  // "friday", "this friday", "next friday", "on fri"
+  const weekday = input.match(new RegExp(`^(?:(this|next|coming)\\s+)?(${WEEKDAY_PATTERN})$`));
+  if (weekday) {
+    const day = WEEKDAYS[weekday[2]];
+    // "this friday" on a Friday means today; otherwise use the next occurrence
+    if (weekday[1] === 'this' && today.getDay() === day) return { date: today };
+    return { date: nextDay(today, day) };
+  }
+
+  // "end of month", "start of next week", "end of the quarter", "eom"
+  const shorthand: Record<string, string> = { eod: 'end of day', eow: 'end of week', eom: 'end of month', eoq: 'end of quarter', eoy: 'end of year' };
+  const boundary = (shorthand[input] ?? input).match(/^(end|start|beginning) of (?:the\s+)?(this|next)?\s*(day|week|month|quarter|year)$/);
+  if (boundary) {
+    const period = boundary[3] as Period;
+    const base = boundary[2] === 'next' ? addUnits(today, period === 'quarter' ? 3 : 1, period === 'quarter' ? 'month' : period) : today;
+    return { date: startOfDay(boundaryOf(base, period, boundary[1] === 'end' ? 'end' : 'start')) };
+  }
+
+  // "q3", "end of q3", "start of q1 2026"
+  const quarter = input.match(/^(?:(end|start|beginning) of\s+)?q([1-4])(?:\s+(\d{4}))?$/);
+  if (quarter) {
+    const year = quarter[3] ? parseInt(quarter[3], 10) : today.getFullYear();
+    const edge = quarter[1] && quarter[1] !== 'end' ? 'start' : 'end';
+    let date = startOfDay(boundaryOf(setQuarter(new Date(year, 0, 1), parseInt(quarter[2], 10)), 'quarter', edge));
+    if (!quarter[3] && isBefore(date, today)) {
+      date = startOfDay(boundaryOf(setQuarter(new Date(year + 1, 0, 1), parseInt(quarter[2], 10)), 'quarter', edge));
+    }
+    return { date };
+  }
+
+  // "dec 5", "december 5th, 2025"
+  const monthFirst = input.match(new RegExp(`^(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?$`));
+  if (monthFirst) {
+    const date = upcomingCalendarDate(
+      MONTHS[monthFirst[1]],
+      parseInt(monthFirst[2], 10),
+      monthFirst[3] ? parseInt(monthFirst[3], 10) : undefined,
+      today
+    );
+    return date ? { date } : null;
+  }
+
+  // "5 dec", "5th of december 2025"
+  const dayFirst = input.match(new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\.?(?:,?\\s+(\\d{4}))?$`));
+  if (dayFirst) {
+    const date = upcomingCalendarDate(
+      MONTHS[dayFirst[2]],
+      parseInt(dayFirst[1], 10),
+      dayFirst[3] ? parseInt(dayFirst[3], 10) : undefined,
+      today
+    );
+    return date ? { date } : null;
+  }
+
+  // "2025-12-05"
+  const iso = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    const date = calendarDate(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+    return date ? { date } : null;
+  }
+
+  // "12/5", "12/5/2025"
+  const numeric = input.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/);
+  if (numeric) {
+    const date = upcomingCalendarDate(
+      parseInt(numeric[1], 10) - 1,
+      parseInt(numeric[2], 10),
+      numeric[3] ? parseInt(numeric[3], 10) : undefined,
+      today
+    );
+    return date ? { date } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parses relative and absolute date expressions such as "next friday",
+ * "in 3 days", "end of month", "Dec 5", "Q3" or "tomorrow at 3pm".
+ * Returns null when the whole input is not a recognizable date.
+ */
+export function parseNaturalDate(input: string, referenceDate: Date = new Date()): ParsedDate | null {
+  const normalized = input
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:on|by|due|before)\s+/, '');
+
+  if (!normalized) return null;
+
+  const { datePart, time } = splitTime(normalized);
+  const parsed = parseDatePart(datePart.replace(/^(?:on|by)\s+/, ''), referenceDate);
+  if (!parsed || !isValid(parsed.date)) return null;
+
+  if (time) {
+    return {
+      date: setMinutes(setHours(parsed.date, time.hours), time.minutes),
+      hasTime: true
+    };
+  }
+
+  return { date: parsed.date, hasTime: parsed.hasTime ?? false };
+}
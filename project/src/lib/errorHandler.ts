@@ -1,4 +1,4 @@
-import { PostgrestError } from '@supabase/supabase-js';
+import { PostgrestError, isAuthError } from '@supabase/supabase-js';
 
 export type ErrorType = 'network' | 'database' | 'validation' | 'auth' | 'unknown';
 
@@ -11,6 +11,17 @@ export interface AppError {
 }
 
 export function parseError(error: unknown): AppError {
+  if (isAuthError(error)) {
+    return {
+      type: 'auth',
+      message: 'Authentication failed.',
+      details: error.message,
+      resolution: 'Please check your email and password and try again.',
+      // No status means the request never reached the auth server
+      retryable: error.status === undefined || error.status >= 500
+    };
+  }
+
   if (error instanceof Error) {
     if ('code' in error && typeof error.code === 'string') {
       // Handle Supabase errors
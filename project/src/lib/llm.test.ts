@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMService } from './llm';
+import { CompletionRequest, CompletionResult, LLMProvider } from './llmProviders';
+
+// A provider whose every call is scripted by the test
+function scriptedProvider(...steps: ((request: CompletionRequest) => CompletionResult)[]) {
+  const complete = vi.fn(async (request: CompletionRequest) => {
+    const step = steps.shift();
+    if (!step) throw new Error('No more scripted replies');
+    return step(request);
+  });
+  const provider: LLMProvider = { name: 'scripted', complete };
+  return { provider, complete };
+}
+
+const fail = () => {
+  throw new Error('Network error');
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Runs the retry backoff timers while the message is processed
+async function send(service: LLMService, message: string, options?: Parameters<LLMService['processMessage']>[1]) {
+  const pending = service.processMessage(message, options);
+  await vi.runAllTimersAsync();
+  return pending;
+}
+
+describe('LLMService streaming', () => {
+  it('retries a request that failed before anything was shown', async () => {
+    const { provider, complete } = scriptedProvider(fail, () => ({ content: 'Done.' }));
+    const service = new LLMService(provider);
+
+    const response = await send(service, 'what is next?', { onToken: () => {} });
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(response).toMatchObject({ content: 'Done.' });
+  });
+
+  it("doesn't retry once tokens were streamed, so they aren't shown twice", async () => {
+    const { provider, complete } = scriptedProvider(request => {
+      request.onToken?.('Half an ');
+      throw new Error('Connection reset');
+    });
+    const service = new LLMService(provider);
+    const tokens: string[] = [];
+
+    const response = await send(service, 'what is next?', { onToken: token => tokens.push(token) });
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(tokens).toEqual(['Half an ']);
+    expect(response.error).toBeDefined();
+  });
+
+  it("doesn't retry a request the user stopped", async () => {
+    const controller = new AbortController();
+    const { provider, complete } = scriptedProvider(() => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    });
+    const service = new LLMService(provider);
+
+    await send(service, 'what is next?', { signal: controller.signal, onToken: () => {} });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a stopped partial answer in the conversation', async () => {
+    const { provider, complete } = scriptedProvider(
+      () => ({ content: 'The first st', aborted: true }),
+      () => ({ content: 'Sure.' })
+    );
+    const service = new LLMService(provider);
+
+    const response = await send(service, 'what is next?', { onToken: () => {} });
+    expect(response).toMatchObject({ content: 'The first st', aborted: true });
+
+    await send(service, 'go on');
+    expect(complete.mock.calls[1][0].messages.slice(-3)).toEqual([
+      { role: 'user', content: 'what is next?' },
+      { role: 'assistant', content: 'The first st' },
+      { role: 'user', content: 'go on' }
+    ]);
+  });
+
+  it('drops the question when it was stopped before any answer', async () => {
+    const { provider, complete } = scriptedProvider(
+      () => ({ content: null, aborted: true }),
+      () => ({ content: 'Sure.' })
+    );
+    const service = new LLMService(provider);
+
+    await send(service, 'what is next?', { onToken: () => {} });
+    await send(service, 'never mind, list my tasks');
+    const messages = complete.mock.calls[1][0].messages;
+    expect(messages.some(message => message.content === 'what is next?')).toBe(false);
+    expect(messages[messages.length - 1]).toEqual({ role: 'user', content: 'never mind, list my tasks' });
+  });
+});
@@ -1,31 +1,83 @@
 import { withRetry } from './retryHandler';
 import { parseError } from './errorHandler';
-import { Task, Project } from '../types';
+import { ASSISTANT_TOOLS, parseToolCalls, ToolCall } from './llmTools';
+import { ChatMessage, LLMProvider, createLLMProvider } from './llmProviders';
+import { ConversationMemory } from './conversationMemory';
+import { llmConfig } from '../config/llm-config';
+import { Task, Project, ProjectMember } from '../types';
 
-const API_URL = 'https://api.deepseek.com/v1/chat/completions';
-const API_KEY = import.meta.env.VITE_LLM_API_KEY;
-
-interface Message {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+type Message = ChatMessage;
 
 interface LLMResponse {
   content: string;
   error?: string;
   suggestedCommand?: string;
+  toolCalls?: ToolCall[];
   projectDetails?: Partial<Project>;
+  // Set once the user confirms the summary at the end of the creation flow
+  projectToCreate?: NewProject;
+  // The user stopped the response; content is the partial answer
+  aborted?: boolean;
+}
+
+export interface StreamOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
 }
 
 interface ProjectContext {
   currentProject?: Project;
-  recentTasks?: Task[];
+  tasks?: Task[];
+  // People who can be assigned tasks in the current project
+  team?: ProjectMember[];
   isCreatingProject?: boolean;
   projectDetails?: Partial<Project>;
-  currentQuestion?: 'name' | 'goal' | 'timeline' | 'priority' | 'team' | 'confirmation';
+  currentQuestion?: CreationQuestion | 'confirmation';
   skippedQuestions?: string[];
+  isPaused?: boolean;
 }
 
+type CreationQuestion = 'name' | 'goal' | 'timeline' | 'priority' | 'phase';
+
+type NewProject = Omit<
+  Project,
+  'id' | 'created_at' | 'updated_at' | 'owner_id' | 'workspace_id' | 'start_date' | 'target_date'
+>;
+
+// Which project field each creation question fills in
+const QUESTION_FIELDS: Record<CreationQuestion, keyof NewProject> = {
+  name: 'name',
+  goal: 'description',
+  timeline: 'timeline_type',
+  priority: 'priority',
+  phase: 'phase'
+};
+
+const CREATION_QUESTIONS = Object.keys(QUESTION_FIELDS) as CreationQuestion[];
+
+// Words that name a question when the user asks to change an answer, checked in order
+const EDIT_KEYWORDS: [CreationQuestion, RegExp][] = [
+  ['name', /\b(?:re)?name\b|\bcall(?:ed)?\b/i],
+  ['goal', /\b(?:goal|purpose|description)\b/i],
+  ['timeline', /\b(?:timeline|deadline)\b/i],
+  ['priority', /\bpriority\b/i],
+  ['phase', /\bphase\b/i]
+];
+
+// "not sure", "no, don't create it yet" must not read as a yes
+const NEGATION_PATTERN = /\b(?:no|nope|not|don'?t|do\s+not|never|hold\s+off)\b/i;
+const CONFIRMATION_PATTERN = /\b(?:yes|yep|yeah|correct|looks\s+good|confirm|create\s+it|go\s+ahead|sure|ok|okay|perfect)\b/i;
+
+const START_PROJECT_PATTERN = /\b(?:let'?s\s+)?(?:start|create|begin|set\s+up)\s+(?:a\s+)?new\s+project\b/i;
+
+// Upper bound on tasks described to the model per request
+const MAX_CONTEXT_TASKS = 8;
+
+const summaryPrompt = `You maintain a running summary of a project management conversation.
+Merge the previous summary with the new turns into one concise summary.
+Keep decisions, agreed names, dates, priorities and open questions. Drop small talk.
+Reply with the summary only.`;
+
 const systemPrompt = `You are an AI assistant specialized in project management, focusing on helping users create and manage projects effectively. Your capabilities include:
 
 1. Project Creation Flow:
@@ -60,6 +112,8 @@ When starting a new project:
 5. Allow users to skip any question with responses like "not sure yet" or "skip"
 
 Keep responses concise, practical, and focused on actionable project management advice.
+When the user asks you to create or change a project, task, note or reminder, call the matching tool instead of describing the steps. The user confirms every tool call before it runs, so briefly say what you are about to do.
+To assign a task, call assign_task with names from the team list; use "me" for the current user.
 If you identify a task-related request that could be handled by a command, suggest the appropriate command format.
 
 Special Instructions for Project Creation:
@@ -69,19 +123,100 @@ Special Instructions for Project Creation:
 - Before finalizing, summarize all collected information and ask for confirmation`;
 
 export class LLMService {
-  private context: Message[] = [
-    { role: 'system', content: systemPrompt }
-  ];
+  private memory: ConversationMemory;
   private projectContext?: ProjectContext;
+  private pendingToolCallIds: string[] = [];
+
+  constructor(
+    private readonly provider: LLMProvider = createLLMProvider(),
+    contextTokens: number = llmConfig.contextTokens
+  ) {
+    this.memory = new ConversationMemory({
+      maxTokens: contextTokens,
+      summarize: (turns, previousSummary) => this.summarizeTurns(turns, previousSummary)
+    });
+  }
 
   setProjectContext(context: ProjectContext) {
-    this.projectContext = context;
-    if (context.currentProject) {
-      this.context.push({
-        role: 'system',
-        content: `Current project: ${context.currentProject.name} (${context.currentProject.phase}, ${context.currentProject.priority} priority)`
-      });
+    // Merge so selecting a project mid-conversation doesn't wipe an in-progress creation flow
+    this.projectContext = { ...this.projectContext, ...context };
+  }
+
+  // System messages are rebuilt for every request so the model always sees the current project
+  private buildSystemMessages(userMessage: string): Message[] {
+    const messages: Message[] = [{ role: 'system', content: systemPrompt }];
+    const project = this.projectContext?.currentProject;
+    if (!project) return messages;
+
+    const lines = [
+      `Current project: ${project.name} (${project.phase}, ${project.priority} priority, ${project.timeline_type})`
+    ];
+    if (project.description) {
+      lines.push(`Description: ${project.description}`);
+    }
+    if (project.start_date || project.target_date) {
+      lines.push(`Dates: starts ${project.start_date ?? 'unset'}, target ${project.target_date ?? 'unset'}`);
+    }
+
+    const team = this.projectContext?.team ?? [];
+    const memberName = (userId: string) => {
+      const member = team.find(m => m.user_id === userId);
+      return member?.display_name ?? member?.email ?? 'someone';
+    };
+    if (team.length > 0) {
+      lines.push(`Team: ${team.map(member =>
+        `${member.display_name ?? member.email ?? 'Unknown'} (${member.role})`
+      ).join(', ')}`);
+    }
+
+    const tasks = this.selectRelevantTasks(userMessage);
+    if (tasks.length > 0) {
+      lines.push('Relevant tasks:', ...tasks.map(task =>
+        `- ${task.name} (${task.completed ? 'completed' : task.phase}, ${task.priority} priority${
+          task.due_date ? `, due ${task.due_date}` : ''
+        }${
+          task.assignee_ids?.length ? `, assigned to ${task.assignee_ids.map(memberName).join(', ')}` : ''
+        })`
+      ));
+    }
+
+    messages.push({ role: 'system', content: lines.join('\n') });
+    return messages;
+  }
+
+  // Tasks named in the message come first, then open tasks by nearest due date
+  private selectRelevantTasks(userMessage: string): Task[] {
+    const words = new Set(userMessage.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+    const score = (task: Task) =>
+      (task.name.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []).filter(word => words.has(word)).length;
+    const dueTime = (task: Task) => task.due_date ? new Date(task.due_date).getTime() : Infinity;
+
+    return [...(this.projectContext?.tasks ?? [])]
+      .filter(task => score(task) > 0 || !task.completed)
+      .sort((a, b) => score(b) - score(a) || dueTime(a) - dueTime(b))
+      .slice(0, MAX_CONTEXT_TASKS);
+  }
+
+  private async summarizeTurns(turns: Message[], previousSummary: string): Promise<string> {
+    const transcript = turns.map(turn => {
+      if (turn.role === 'tool') return `Action result: ${turn.content}`;
+      const actions = turn.tool_calls?.map(call => `[proposed ${call.function.name} ${call.function.arguments}]`) ?? [];
+      return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${[turn.content, ...actions].filter(Boolean).join(' ')}`;
+    }).join('\n');
+
+    const response = await this.provider.complete({
+      messages: [
+        { role: 'system', content: summaryPrompt },
+        {
+          role: 'user',
+          content: `Previous summary:\n${previousSummary || '(none)'}\n\nNew turns:\n${transcript}`
+        }
+      ]
+    });
+    if (!response.content) {
+      throw new Error('Summary response was empty');
     }
+    return response.content.trim();
   }
 
   private extractProjectDetails(message: string): Partial<Project> {
@@ -124,23 +259,204 @@ export class LLMService {
     return details;
   }
 
-  private getNextQuestion(currentDetails: Partial<Project>): string {
-    if (!currentDetails.name) {
-      return "What would you like to name this project?";
+  private getNextQuestion(currentDetails: Partial<Project>, skipped: string[] = []): CreationQuestion | 'confirmation' {
+    // A project can't be created without a name, so that question is never skippable
+    return CREATION_QUESTIONS.find(question =>
+      !currentDetails[QUESTION_FIELDS[question]] && (question === 'name' || !skipped.includes(question))
+    ) ?? 'confirmation';
+  }
+
+  private getQuestionText(question: CreationQuestion, currentDetails: Partial<Project>): string {
+    switch (question) {
+      case 'name':
+        return "What would you like to name this project?";
+      case 'goal':
+        return `What's the main goal or purpose of "${currentDetails.name}"?`;
+      case 'timeline':
+        return "Do you have a specific timeline in mind? (strict deadline, flexible, or no timeline)";
+      case 'priority':
+        return "How would you prioritize this project? (high, medium, or low priority)";
+      case 'phase':
+        return "What phase is the project in? (planning, in progress, or on hold)";
     }
-    if (!currentDetails.description) {
-      return `Great! What's the main goal or purpose of "${currentDetails.name}"?`;
+  }
+
+  // Reads a short answer ("high", "flexible", "my-app") to the question that was just asked
+  private extractAnswer(question: CreationQuestion, message: string): Partial<Project> {
+    const answer = message.trim();
+    const lower = answer.toLowerCase();
+
+    switch (question) {
+      case 'name': {
+        const name = answer
+          .replace(/^(?:(?:it'?s|it\s+is|call\s+it|let'?s\s+call\s+it|the\s+name\s+is|name\s+it)\s+)/i, '')
+          .replace(/^["'](.*)["']$/, '$1')
+          .replace(/[.!]+$/, '')
+          .trim();
+        return name ? { name } : {};
+      }
+      case 'goal':
+        return answer ? { description: answer } : {};
+      case 'timeline': {
+        if (lower.match(/\b(?:strict|fixed|hard)\b/)) return { timeline_type: 'Strict' };
+        if (lower.match(/\bflexible\b/)) return { timeline_type: 'Flexible' };
+        if (lower.match(/\b(?:none|no|open)\b/)) return { timeline_type: 'No Timeline' };
+        return {};
+      }
+      case 'priority': {
+        const priority = lower.match(/\b(high|medium|low)\b/);
+        return priority
+          ? { priority: (priority[1].charAt(0).toUpperCase() + priority[1].slice(1)) as Project['priority'] }
+          : {};
+      }
+      case 'phase': {
+        if (lower.match(/\bplanning\b/)) return { phase: 'Planning' };
+        if (lower.match(/\bin\s+progress\b|\bstarted\b/)) return { phase: 'In Progress' };
+        if (lower.match(/\bon\s+hold\b|\bpaused\b/)) return { phase: 'On Hold' };
+        if (lower.match(/\bongoing\b/)) return { phase: 'Ongoing' };
+        return {};
+      }
     }
-    if (!currentDetails.timeline_type) {
-      return "Do you have a specific timeline in mind? (strict deadline, flexible, or no timeline)";
+  }
+
+  // Which question a "go back and change the priority" request refers to, and the new value
+  // when one follows the field: "rename it to Apollo", "the priority should be high"
+  private findEdit(message: string): { question: CreationQuestion; value?: string } | undefined {
+    for (const [question, keyword] of EDIT_KEYWORDS) {
+      const match = keyword.exec(message);
+      if (!match) continue;
+      const rest = message.slice(match.index + match[0].length);
+      return { question, value: rest.match(/\b(?:to|is|should\s+be)\s+(.+)$/i)?.[1] };
     }
-    if (!currentDetails.priority) {
-      return "How would you prioritize this project? (high, medium, or low priority)";
+    return undefined;
+  }
+
+  private askNext(prefix = ''): LLMResponse {
+    const context = this.projectContext!;
+    const details = context.projectDetails ?? {};
+    const next = this.getNextQuestion(details, context.skippedQuestions);
+    context.currentQuestion = next;
+
+    const text = next === 'confirmation'
+      ? this.generateSummary(details)
+      : this.getQuestionText(next, details);
+
+    return {
+      content: prefix ? `${prefix} ${text}` : text,
+      projectDetails: details
+    };
+  }
+
+  private handleConfirmationAnswer(userMessage: string): LLMResponse {
+    const context = this.projectContext!;
+    const details = context.projectDetails ?? {};
+    const edit = this.findEdit(userMessage);
+
+    if (edit) {
+      const editedQuestion = edit.question;
+      // "change the priority to high" carries the new value; "go back and change the priority" doesn't
+      const update = edit.value ? this.extractAnswer(editedQuestion, edit.value) : {};
+
+      if (Object.keys(update).length > 0) {
+        context.projectDetails = { ...details, ...update };
+        return this.askNext('Updated!');
+      }
+
+      const field = QUESTION_FIELDS[editedQuestion];
+      context.projectDetails = { ...details, [field]: undefined };
+      context.skippedQuestions = context.skippedQuestions?.filter(q => q !== editedQuestion);
+      return this.askNext('Sure, let\'s change that.');
     }
-    if (!currentDetails.phase) {
-      return "What phase is the project in? (planning, in progress, or on hold)";
+
+    if (CONFIRMATION_PATTERN.test(userMessage) && !NEGATION_PATTERN.test(userMessage)) {
+      const projectToCreate: NewProject = {
+        name: details.name!,
+        description: details.description ?? null,
+        phase: details.phase ?? 'Planning',
+        priority: details.priority ?? 'Medium',
+        timeline_type: details.timeline_type ?? 'Flexible',
+        archived: false
+      };
+      this.projectContext = { ...context, isCreatingProject: false, currentQuestion: undefined, projectDetails: undefined };
+      return {
+        content: `Creating "${projectToCreate.name}"...`,
+        projectDetails: details,
+        projectToCreate
+      };
     }
-    return "Let me summarize what we have so far...";
+
+    return {
+      content: 'What would you like to change? You can adjust the name, goal, timeline, priority or phase, e.g. "change the priority to high".',
+      projectDetails: details
+    };
+  }
+
+  // Drives the guided creation flow. Returns null when the message should go to the model instead.
+  private handleProjectCreation(userMessage: string): LLMResponse | null {
+    const lower = userMessage.toLowerCase();
+
+    if (START_PROJECT_PATTERN.test(userMessage)) {
+      this.projectContext = {
+        ...this.projectContext,
+        isCreatingProject: true,
+        isPaused: false,
+        currentQuestion: 'name',
+        projectDetails: this.extractProjectDetails(userMessage),
+        skippedQuestions: []
+      };
+      return this.askNext("Let's set up your new project!");
+    }
+
+    const context = this.projectContext;
+    if (!context?.isCreatingProject) return null;
+
+    if (context.isPaused) {
+      if (!lower.match(/\b(?:continue|resume|back\s+to\s+(?:the\s+)?project)\b/)) return null;
+      context.isPaused = false;
+      return this.askNext('Welcome back!');
+    }
+
+    if (lower.match(/\b(?:cancel|never\s*mind|forget\s+it)\b/)) {
+      this.projectContext = { ...context, isCreatingProject: false, currentQuestion: undefined, projectDetails: undefined };
+      return { content: "Okay, I've discarded the new project. Let me know if you want to start again." };
+    }
+
+    if (lower.includes('wait') || lower.includes('hold on')) {
+      context.isPaused = true;
+      return {
+        content: "No problem! We can pause the project creation. Say \"continue\" when you'd like to pick up where we left off.",
+        projectDetails: context.projectDetails
+      };
+    }
+
+    if (context.currentQuestion === 'confirmation') {
+      return this.handleConfirmationAnswer(userMessage);
+    }
+
+    const question = (context.currentQuestion ?? 'name') as CreationQuestion;
+
+    if (lower.match(/\b(skip|not sure|don't know|later)\b/)) {
+      if (question === 'name') {
+        return { content: "I'll need at least a name to create the project. What should we call it?" };
+      }
+      context.skippedQuestions = [...(context.skippedQuestions ?? []), question];
+      return this.askNext('No problem! We can come back to that later.');
+    }
+
+    // Pick up anything volunteered alongside the answer ("flexible, and it's high priority")
+    const answer = {
+      ...this.extractProjectDetails(userMessage),
+      ...this.extractAnswer(question, userMessage)
+    };
+    if (!answer[QUESTION_FIELDS[question]]) {
+      return {
+        content: `Sorry, I didn't catch that. ${this.getQuestionText(question, context.projectDetails ?? {})}`,
+        projectDetails: context.projectDetails
+      };
+    }
+
+    context.projectDetails = { ...context.projectDetails, ...answer };
+    return this.askNext('Got it!');
   }
 
   private generateSummary(details: Partial<Project>): string {
@@ -155,107 +471,76 @@ export class LLMService {
     return `Here's what I have for the project:\n\n${summary}\n\nDoes this look correct? We can adjust any details if needed.`;
   }
 
-  async processMessage(userMessage: string): Promise<LLMResponse> {
+  async processMessage(userMessage: string, options: StreamOptions = {}): Promise<LLMResponse> {
     try {
-      let messageWithContext = userMessage;
-      let projectDetails: Partial<Project> | undefined;
-
-      // Handle project creation flow
-      if (userMessage.toLowerCase().includes("let's start a new project")) {
-        this.projectContext = { 
-          isCreatingProject: true,
-          currentQuestion: 'name',
-          projectDetails: {},
-          skippedQuestions: []
-        };
-        messageWithContext = "User wants to create a new project. Ask for the project name in a friendly way.";
-      } else if (this.projectContext?.isCreatingProject) {
-        // Check for conversation interruption
-        if (userMessage.toLowerCase().includes('wait') || userMessage.toLowerCase().includes('hold on')) {
-          return {
-            content: "No problem! We can pause the project creation. Let me know when you'd like to continue, and we'll pick up where we left off.",
-            projectDetails: this.projectContext.projectDetails
-          };
-        }
+      const flowResponse = this.handleProjectCreation(userMessage);
+      if (flowResponse) {
+        // Keep the model aware of the guided conversation for later questions
+        this.resolvePendingToolCalls();
+        this.memory.push({ role: 'user', content: userMessage });
+        this.memory.push({ role: 'assistant', content: flowResponse.content });
+        return flowResponse;
+      }
 
-        // Check for skip or uncertainty
-        if (userMessage.toLowerCase().match(/\b(skip|not sure|don't know|later)\b/)) {
-          this.projectContext.skippedQuestions?.push(this.projectContext.currentQuestion || '');
-          const nextQuestion = this.getNextQuestion(this.projectContext.projectDetails || {});
-          return {
-            content: `No problem! We can come back to that later. ${nextQuestion}`,
-            projectDetails: this.projectContext.projectDetails
-          };
+      this.resolvePendingToolCalls();
+      this.memory.push({ role: 'user', content: userMessage });
+
+      const systemMessages = this.buildSystemMessages(userMessage);
+      await this.memory.compact(systemMessages);
+
+      let streamedTokens = false;
+      const response = await withRetry(
+        () => this.provider.complete({
+          messages: this.memory.build(systemMessages),
+          tools: ASSISTANT_TOOLS,
+          signal: options.signal,
+          onToken: options.onToken && (token => {
+            streamedTokens = true;
+            options.onToken?.(token);
+          })
+        }),
+        {
+          maxRetries: 3,
+          initialDelay: 1000,
+          maxDelay: 5000,
+          // A retry after tokens were shown would repeat them in the chat
+          shouldRetry: () => !streamedTokens && !options.signal?.aborted
         }
+      );
 
-        // Extract new details
-        projectDetails = this.extractProjectDetails(userMessage);
-        this.projectContext.projectDetails = {
-          ...this.projectContext.projectDetails,
-          ...projectDetails
-        };
-        
-        // Get next question or generate summary
-        const nextQuestion = this.getNextQuestion(this.projectContext.projectDetails);
-        if (nextQuestion.startsWith("Let me summarize")) {
-          messageWithContext = this.generateSummary(this.projectContext.projectDetails);
+      if (response.aborted) {
+        if (response.content) {
+          this.memory.push({ role: 'assistant', content: response.content });
         } else {
-          messageWithContext = nextQuestion;
+          // Nothing was said, so drop the unanswered user turn
+          this.memory.pop();
         }
-      } else if (this.projectContext?.currentProject) {
-        messageWithContext = `[Project: ${this.projectContext.currentProject.name}] ${userMessage}`;
+        return {
+          content: response.content ?? '',
+          aborted: true,
+          projectDetails: this.projectContext?.projectDetails
+        };
       }
 
-      this.context.push({ role: 'user', content: messageWithContext });
-
-      const response = await withRetry(async () => {
-        const result = await fetch(API_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${API_KEY}`
-          },
-          body: JSON.stringify({
-            model: 'deepseek-chat',
-            messages: this.context,
-            max_tokens: 250,
-            temperature: 0.7,
-            top_p: 1,
-            frequency_penalty: 0.3,
-            presence_penalty: 0.3
-          })
-        });
-
-        if (!result.ok) {
-          throw new Error(`API request failed: ${result.statusText}`);
-        }
-
-        return await result.json();
-      }, {
-        maxRetries: 3,
-        initialDelay: 1000,
-        maxDelay: 5000
+      const toolCalls = parseToolCalls(response.toolCalls);
+      const assistantMessage: string = response.content
+        || (toolCalls.length > 0 ? "Here's what I'd like to do. Please confirm:" : '');
+      this.memory.push({
+        role: 'assistant',
+        content: response.content,
+        tool_calls: response.toolCalls
       });
-
-      const assistantMessage = response.choices[0].message.content;
-      this.context.push({ role: 'assistant', content: assistantMessage });
+      // Every tool call id must be answered before the next user turn
+      this.pendingToolCallIds = (response.toolCalls ?? []).map(call => call.id);
 
       // Extract command suggestion if present
       const commandMatch = assistantMessage.match(/You can use the command:\s*`([^`]+)`/);
       const suggestedCommand = commandMatch ? commandMatch[1] : undefined;
 
-      // Manage context window
-      if (this.context.length > 10) {
-        this.context = [
-          this.context[0], // Keep system prompt
-          this.context[1], // Keep project context if exists
-          ...this.context.slice(-4) // Keep last 4 messages
-        ];
-      }
-
       return { 
         content: assistantMessage,
         suggestedCommand,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         projectDetails: this.projectContext?.projectDetails
       };
     } catch (error) {
@@ -267,6 +552,19 @@ export class LLMService {
     }
   }
 
+  // Reports the outcome of a confirmed or rejected tool call back to the model
+  recordToolResult(toolCallId: string, result: string) {
+    if (!this.pendingToolCallIds.includes(toolCallId)) return;
+    this.memory.push({ role: 'tool', tool_call_id: toolCallId, content: result });
+    this.pendingToolCallIds = this.pendingToolCallIds.filter(id => id !== toolCallId);
+  }
+
+  private resolvePendingToolCalls() {
+    for (const id of [...this.pendingToolCallIds]) {
+      this.recordToolResult(id, 'The user moved on without confirming this action, so it was not run.');
+    }
+  }
+
   async summarizeTasks(tasks: Task[]): Promise<string> {
     try {
       const taskSummary = tasks.map(task => 
@@ -302,8 +600,18 @@ export class LLMService {
     }
   }
 
+  // Replaces the conversation with a stored thread, e.g. after switching projects
+  restoreHistory(history: { type: 'user' | 'assistant'; content: string }[]) {
+    this.memory.clear();
+    this.pendingToolCallIds = [];
+    for (const message of history) {
+      this.memory.push({ role: message.type, content: message.content });
+    }
+  }
+
   clearContext() {
-    this.context = [this.context[0]]; // Keep only system prompt
+    this.memory.clear();
     this.projectContext = undefined;
+    this.pendingToolCallIds = [];
   }
 }
\ No newline at end of file
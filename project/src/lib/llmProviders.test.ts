@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LLMConfig } from '../config/llm-config';
+import { DeepSeekProvider, MockLLMProvider, OpenAICompatibleProvider, createLLMProvider } from './llmProviders';
+
+const CONFIG: LLMConfig = {
+  provider: 'mock',
+  maxTokens: 256,
+  contextTokens: 2000,
+  temperature: 0.5,
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0
+};
+
+const reply = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+
+function stubFetch(response: (init: RequestInit) => Response) {
+  const fetch = vi.fn<(url: string, init: RequestInit) => Promise<Response>>(async (...args) => response(args[1]));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createLLMProvider', () => {
+  it('returns the mock provider for offline use', () => {
+    expect(createLLMProvider(CONFIG)).toBeInstanceOf(MockLLMProvider);
+  });
+
+  it('points DeepSeek at its hosted API by default', async () => {
+    const fetch = stubFetch(() => reply('hi'));
+    const provider = createLLMProvider({ ...CONFIG, provider: 'deepseek', apiKey: 'secret' });
+    expect(provider).toBeInstanceOf(DeepSeekProvider);
+
+    await provider.complete({ messages: [{ role: 'user', content: 'hello' }] });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.deepseek.com/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: 'deepseek-chat', max_tokens: 256, stream: false });
+  });
+
+  it('defaults OpenAI-compatible servers to a local Ollama without a key', async () => {
+    const fetch = stubFetch(() => reply('hi'));
+    const provider = createLLMProvider({ ...CONFIG, provider: 'openai' });
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+
+    await provider.complete({ messages: [{ role: 'user', content: 'hello' }] });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: 'llama3.1' });
+  });
+
+  it('uses the configured base URL and model', async () => {
+    const fetch = stubFetch(() => reply('hi'));
+    const provider = createLLMProvider({ ...CONFIG, provider: 'openai', baseUrl: 'http://llm.local:8080/v1/', model: 'qwen' });
+
+    await provider.complete({ messages: [{ role: 'user', content: 'hello' }] });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://llm.local:8080/v1/chat/completions');
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: 'qwen' });
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  const provider = new OpenAICompatibleProvider({ ...CONFIG, baseUrl: 'http://llm.local/v1', model: 'test' });
+
+  it('returns the message content and tool calls', async () => {
+    const toolCalls = [{ id: 'call_1', type: 'function', function: { name: 'create_task', arguments: '{"name":"x"}' } }];
+    stubFetch(() => new Response(JSON.stringify({ choices: [{ message: { content: null, tool_calls: toolCalls } }] })));
+
+    await expect(provider.complete({ messages: [] })).resolves.toEqual({ content: null, toolCalls });
+  });
+
+  it('sends tools only when there are some', async () => {
+    const fetch = stubFetch(() => reply('hi'));
+    await provider.complete({ messages: [], tools: [] });
+    await provider.complete({ messages: [], tools: [{ type: 'function' }] });
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body as string)).not.toHaveProperty('tools');
+    expect(JSON.parse(fetch.mock.calls[1][1].body as string)).toMatchObject({ tool_choice: 'auto' });
+  });
+
+  it('fails on an error status', async () => {
+    stubFetch(() => new Response('', { status: 500, statusText: 'Internal Server Error' }));
+
+    await expect(provider.complete({ messages: [] })).rejects.toThrow('API request failed: Internal Server Error');
+  });
+});
+
+describe('MockLLMProvider', () => {
+  it('plays scripted replies in order, then falls back to rules and echoes', async () => {
+    const provider = new MockLLMProvider({
+      script: [{ content: 'first' }],
+      rules: [{ match: /timeline/i, reply: { content: 'A timeline.' } }]
+    });
+    const ask = (content: string) => provider.complete({ messages: [{ role: 'user', content }] });
+
+    expect(await ask('anything')).toEqual({ content: 'first' });
+    expect(await ask('suggest a Timeline')).toEqual({ content: 'A timeline.' });
+    expect(await ask('something else')).toEqual({ content: '(mock) You said: something else' });
+    expect(provider.requests).toHaveLength(3);
+  });
+});
+
+const encoder = new TextEncoder();
+const event = (delta: object) => `data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`;
+
+// Server-sent events as they arrive on the wire; an open stream errors once the request is aborted
+function eventStream(parts: string[], signal?: AbortSignal | null, { open = false } = {}) {
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        parts.forEach(part => controller.enqueue(encoder.encode(part)));
+        if (!open) controller.close();
+        signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+      }
+    })
+  );
+}
+
+describe('OpenAICompatibleProvider streaming', () => {
+  const provider = new OpenAICompatibleProvider({ ...CONFIG, baseUrl: 'http://llm.local/v1', model: 'test' });
+
+  it('passes each content delta on, including events split across reads', async () => {
+    const [first, second] = [event({ content: 'Hel' }), event({ content: 'lo' })];
+    const fetch = stubFetch(() =>
+      eventStream([first + second.slice(0, 10), second.slice(10), 'data: [DONE]\n\n'])
+    );
+    const tokens: string[] = [];
+
+    const result = await provider.complete({ messages: [], onToken: token => tokens.push(token) });
+    expect(JSON.parse(fetch.mock.calls[0][1].body as string)).toMatchObject({ stream: true });
+    expect(tokens).toEqual(['Hel', 'lo']);
+    expect(result).toEqual({ content: 'Hello', toolCalls: undefined });
+  });
+
+  it('joins tool call fragments by index', async () => {
+    stubFetch(() =>
+      eventStream([
+        event({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'create_', arguments: '{"na' } }] }),
+        event({ tool_calls: [{ index: 0, function: { name: 'task', arguments: 'me":"x"}' } }] }),
+        event({ tool_calls: [{ index: 1, id: 'call_2', function: { name: 'list_tasks', arguments: '{}' } }] })
+      ])
+    );
+
+    const result = await provider.complete({ messages: [], onToken: () => {} });
+    expect(result.toolCalls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'create_task', arguments: '{"name":"x"}' } },
+      { id: 'call_2', type: 'function', function: { name: 'list_tasks', arguments: '{}' } }
+    ]);
+  });
+
+  it('keeps the text received before an abort and drops half-received tool calls', async () => {
+    const controller = new AbortController();
+    stubFetch(init =>
+      eventStream(
+        [event({ content: 'Partial ', tool_calls: [{ index: 0, id: 'call_1', function: { name: 'create_task' } }] })],
+        init.signal,
+        { open: true }
+      )
+    );
+
+    const result = await provider.complete({ messages: [], signal: controller.signal, onToken: () => controller.abort() });
+    expect(result).toEqual({ content: 'Partial ', aborted: true });
+  });
+
+  it('reports an abort before the response arrives', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    stubFetch(() => {
+      throw new DOMException('Aborted', 'AbortError');
+    });
+
+    await expect(provider.complete({ messages: [], signal: controller.signal, onToken: () => {} })).resolves.toEqual({
+      content: null,
+      aborted: true
+    });
+  });
+});
+
+describe('MockLLMProvider streaming', () => {
+  it('streams word by word and stops when aborted', async () => {
+    const provider = new MockLLMProvider({ script: [{ content: 'one two three' }] });
+    const controller = new AbortController();
+    const tokens: string[] = [];
+
+    const result = await provider.complete({
+      messages: [],
+      signal: controller.signal,
+      onToken: token => {
+        tokens.push(token);
+        if (tokens.length === 2) controller.abort();
+      }
+    });
+    expect(tokens).toEqual(['one ', 'two ']);
+    expect(result).toEqual({ content: 'one two ', aborted: true });
+  });
+});
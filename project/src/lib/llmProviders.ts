@@ -0,0 +1,257 @@
+import { LLMConfig, llmConfig } from '../config/llm-config';
+import { RawToolCall } from './llmTools';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: RawToolCall[];
+  tool_call_id?: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  tools?: unknown[];
+  // When set, the response is streamed and each content delta is passed here
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string | null;
+  toolCalls?: RawToolCall[];
+  // The request was cancelled; content holds whatever arrived before that
+  aborted?: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+type SamplingOptions = Pick<LLMConfig, 'maxTokens' | 'temperature' | 'topP' | 'frequencyPenalty' | 'presencePenalty'>;
+
+export interface OpenAICompatibleOptions extends SamplingOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  name?: string;
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API:
+ * DeepSeek, OpenAI, or a local llama.cpp / Ollama server.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.name = options.name ?? 'openai';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without a key
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+
+    const stream = Boolean(request.onToken);
+    let result: Response;
+    try {
+      result = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: request.signal,
+        body: JSON.stringify({
+          model: this.options.model,
+          messages: request.messages,
+          ...(request.tools?.length ? { tools: request.tools, tool_choice: 'auto' } : {}),
+          stream,
+          max_tokens: this.options.maxTokens,
+          temperature: this.options.temperature,
+          top_p: this.options.topP,
+          frequency_penalty: this.options.frequencyPenalty,
+          presence_penalty: this.options.presencePenalty
+        })
+      });
+    } catch (error) {
+      if (request.signal?.aborted) return { content: null, aborted: true };
+      throw error;
+    }
+
+    if (!result.ok) {
+      throw new Error(`API request failed: ${result.statusText}`);
+    }
+
+    if (stream) {
+      return this.readStream(result, request);
+    }
+
+    const response = await result.json();
+    const message = response.choices?.[0]?.message;
+    if (!message) {
+      throw new Error('API response did not include a message');
+    }
+
+    return {
+      content: message.content ?? null,
+      toolCalls: message.tool_calls
+    };
+  }
+
+  // Accumulates server-sent chat completion chunks into a single result
+  private async readStream(result: Response, request: CompletionRequest): Promise<CompletionResult> {
+    if (!result.body) {
+      throw new Error('API response did not include a body');
+    }
+
+    const reader = result.body.getReader();
+    const decoder = new TextDecoder();
+    const toolCalls: RawToolCall[] = [];
+    let content = '';
+    let buffer = '';
+
+    const handleEvent = (data: string) => {
+      if (data === '[DONE]') return;
+      const delta = JSON.parse(data).choices?.[0]?.delta;
+      if (!delta) return;
+
+      if (delta.content) {
+        content += delta.content;
+        request.onToken?.(delta.content);
+      }
+      // Tool calls arrive in fragments keyed by index; arguments are concatenated
+      for (const fragment of delta.tool_calls ?? []) {
+        const call = toolCalls[fragment.index] ??= {
+          id: '',
+          type: 'function',
+          function: { name: '', arguments: '' }
+        };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      }
+    };
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.startsWith('data:')) handleEvent(line.slice(5).trim());
+        }
+      }
+      if (buffer.startsWith('data:')) handleEvent(buffer.slice(5).trim());
+    } catch (error) {
+      if (request.signal?.aborted) {
+        // Half-received tool calls can't be run, so only the text survives
+        return { content: content || null, aborted: true };
+      }
+      throw error;
+    }
+
+    return {
+      content: content || null,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+}
+
+export class DeepSeekProvider extends OpenAICompatibleProvider {
+  constructor(options: SamplingOptions & { apiKey?: string; model?: string; baseUrl?: string }) {
+    super({
+      ...options,
+      name: 'deepseek',
+      baseUrl: options.baseUrl ?? 'https://api.deepseek.com/v1',
+      model: options.model ?? 'deepseek-chat'
+    });
+  }
+}
+
+export interface MockRule {
+  // Matched against the latest user message
+  match: RegExp | string;
+  reply: CompletionResult;
+}
+
+/**
+ * Deterministic provider for offline development and tests. Scripted replies
+ * are returned in order; after that the first matching rule wins, and anything
+ * else is echoed back.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly requests: CompletionRequest[] = [];
+  private script: CompletionResult[];
+  private readonly rules: MockRule[];
+
+  constructor(options: { script?: CompletionResult[]; rules?: MockRule[] } = {}) {
+    this.script = [...(options.script ?? [])];
+    this.rules = options.rules ?? DEFAULT_MOCK_RULES;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.requests.push(request);
+
+    const reply = this.script.shift() ?? this.reply(request);
+    if (!request.onToken || !reply.content) return reply;
+
+    // Stream word by word so the chat UI behaves as it does with a real backend
+    let streamed = '';
+    for (const token of reply.content.match(/\S+\s*/g) ?? []) {
+      if (request.signal?.aborted) {
+        return { content: streamed || null, aborted: true };
+      }
+      streamed += token;
+      request.onToken(token);
+      await new Promise(resolve => setTimeout(resolve, 30));
+    }
+    return reply;
+  }
+
+  private reply(request: CompletionRequest): CompletionResult {
+    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    const rule = this.rules.find(({ match }) =>
+      typeof match === 'string'
+        ? lastUserMessage.toLowerCase().includes(match.toLowerCase())
+        : match.test(lastUserMessage)
+    );
+    if (rule) return rule.reply;
+
+    return { content: `(mock) You said: ${lastUserMessage}` };
+  }
+}
+
+const DEFAULT_MOCK_RULES: MockRule[] = [
+  {
+    match: /\b(?:hi|hello|hey)\b/i,
+    reply: { content: 'Hello! I can help you plan projects and manage tasks. Type "help" to see the commands I understand.' }
+  },
+  {
+    match: 'analyze these tasks',
+    reply: { content: 'Most tasks are on track. Focus on the high priority items with the nearest due dates first.' }
+  },
+  {
+    match: 'suggest a timeline',
+    reply: { content: 'Start with planning tasks this week, move implementation into the next two weeks, and leave the final week for review.' }
+  }
+];
+
+export function createLLMProvider(config: LLMConfig = llmConfig): LLMProvider {
+  switch (config.provider) {
+    case 'mock':
+      return new MockLLMProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        ...config,
+        baseUrl: config.baseUrl ?? 'http://localhost:11434/v1',
+        model: config.model ?? 'llama3.1'
+      });
+    case 'deepseek':
+      return new DeepSeekProvider(config);
+  }
+}
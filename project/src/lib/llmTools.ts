@@ -0,0 +1,249 @@
+export type ToolName =
+  | 'create_project'
+  | 'update_project'
+  | 'archive_project'
+  | 'create_task'
+  | 'update_task'
+  | 'assign_task'
+  | 'create_note'
+  | 'create_reminder';
+
+export interface ToolCall {
+  id: string;
+  name: ToolName;
+  arguments: Record<string, unknown>;
+}
+
+// Shape of a tool call in an OpenAI-compatible chat completion response
+export interface RawToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+const PRIORITY = { type: 'string', enum: ['High', 'Medium', 'Low'] };
+const TASK_PHASE = { type: 'string', enum: ['Planning', 'In Progress', 'On Hold', 'Completed'] };
+const PROJECT_PHASE = { type: 'string', enum: ['Planning', 'In Progress', 'On Hold', 'Completed', 'Ongoing'] };
+const TIMELINE = { type: 'string', enum: ['No Timeline', 'Flexible', 'Strict'] };
+const DATE = {
+  type: 'string',
+  description: 'A date such as "2025-06-30", "next friday", "in 3 days" or "end of month"'
+};
+
+export const ASSISTANT_TOOLS = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_project',
+      description: 'Create a new project.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          phase: PROJECT_PHASE,
+          priority: PRIORITY,
+          timeline_type: TIMELINE,
+          start_date: DATE,
+          target_date: DATE
+        },
+        required: ['name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_project',
+      description: 'Change fields on an existing project, identified by its current name.',
+      parameters: {
+        type: 'object',
+        properties: {
+          project_name: { type: 'string', description: 'Current name of the project to update' },
+          name: { type: 'string', description: 'New name' },
+          description: { type: 'string' },
+          phase: PROJECT_PHASE,
+          priority: PRIORITY,
+          timeline_type: TIMELINE,
+          start_date: DATE,
+          target_date: DATE
+        },
+        required: ['project_name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'archive_project',
+      description: 'Archive a project to hide it from the project list, or restore an archived one.',
+      parameters: {
+        type: 'object',
+        properties: {
+          project_name: { type: 'string' },
+          restore: { type: 'boolean', description: 'Bring an archived project back instead of archiving it' }
+        },
+        required: ['project_name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_task',
+      description: 'Create a task. Uses the currently selected project when project_name is omitted.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          project_name: { type: 'string' },
+          description: { type: 'string' },
+          priority: PRIORITY,
+          phase: TASK_PHASE,
+          due_date: DATE
+        },
+        required: ['name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_task',
+      description: 'Change fields on an existing task, identified by its current name.',
+      parameters: {
+        type: 'object',
+        properties: {
+          task_name: { type: 'string', description: 'Current name of the task to update' },
+          name: { type: 'string', description: 'New name' },
+          description: { type: 'string' },
+          priority: PRIORITY,
+          phase: TASK_PHASE,
+          due_date: DATE,
+          completed: { type: 'boolean' }
+        },
+        required: ['task_name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'assign_task',
+      description: 'Assign people on the project team to a task, or take them off it.',
+      parameters: {
+        type: 'object',
+        properties: {
+          task_name: { type: 'string', description: 'Current name of the task' },
+          assignees: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Names or emails of team members; "me" for the user'
+          },
+          unassign: { type: 'boolean', description: 'Remove these people instead of adding them' }
+        },
+        required: ['task_name', 'assignees']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_note',
+      description: 'Attach a note to a task, or to a project when no task is given.',
+      parameters: {
+        type: 'object',
+        properties: {
+          content: { type: 'string' },
+          task_name: { type: 'string' },
+          project_name: { type: 'string' }
+        },
+        required: ['content']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_reminder',
+      description: 'Set a reminder linked to a task, or to a project when no task is given.',
+      parameters: {
+        type: 'object',
+        properties: {
+          when: { ...DATE, description: 'When to remind, e.g. "tomorrow at 3pm" or "next friday"' },
+          message: { type: 'string' },
+          task_name: { type: 'string' },
+          project_name: { type: 'string' }
+        },
+        required: ['when']
+      }
+    }
+  }
+];
+
+const TOOL_NAMES = ASSISTANT_TOOLS.map(tool => tool.function.name);
+
+export function parseToolCalls(rawCalls: RawToolCall[] | undefined): ToolCall[] {
+  if (!rawCalls) return [];
+
+  return rawCalls.flatMap(call => {
+    if (call.type !== 'function' || !TOOL_NAMES.includes(call.function.name)) {
+      return [];
+    }
+    try {
+      return [{
+        id: call.id,
+        name: call.function.name as ToolName,
+        arguments: JSON.parse(call.function.arguments || '{}')
+      }];
+    } catch (error) {
+      console.error('Invalid tool call arguments:', call.function.arguments, error);
+      return [];
+    }
+  });
+}
+
+export function describeToolCall(call: ToolCall): string {
+  const args = call.arguments;
+  const details = (keys: string[]) => keys
+    .filter(key => args[key] !== undefined && args[key] !== '')
+    .map(key => `${key.replace('_', ' ')}: ${args[key]}`)
+    .join(', ');
+  const withDetails = (summary: string, keys: string[]) => {
+    const extra = details(keys);
+    return extra ? `${summary} (${extra})` : summary;
+  };
+
+  switch (call.name) {
+    case 'create_project':
+      return withDetails(`Create project "${args.name}"`, ['description', 'phase', 'priority', 'timeline_type', 'start_date', 'target_date']);
+    case 'update_project':
+      return withDetails(`Update project "${args.project_name}"`, [
+        'name', 'description', 'phase', 'priority', 'timeline_type', 'start_date', 'target_date'
+      ]);
+    case 'archive_project':
+      return `${args.restore ? 'Restore' : 'Archive'} project "${args.project_name}"`;
+    case 'create_task':
+      return withDetails(
+        `Create task "${args.name}"${args.project_name ? ` in "${args.project_name}"` : ''}`,
+        ['description', 'priority', 'phase', 'due_date']
+      );
+    case 'update_task':
+      return withDetails(`Update task "${args.task_name}"`, ['name', 'description', 'priority', 'phase', 'due_date', 'completed']);
+    case 'assign_task': {
+      const people = Array.isArray(args.assignees) ? args.assignees.join(', ') : args.assignees;
+      return args.unassign
+        ? `Unassign ${people} from "${args.task_name}"`
+        : `Assign "${args.task_name}" to ${people}`;
+    }
+    case 'create_note':
+      return `Add note${args.task_name ? ` to "${args.task_name}"` : args.project_name ? ` to "${args.project_name}"` : ''}: ${args.content}`;
+    case 'create_reminder':
+      return `Remind ${args.when}${args.message ? `: ${args.message}` : ''}${
+        args.task_name ? ` (task "${args.task_name}")` : args.project_name ? ` (project "${args.project_name}")` : ''
+      }`;
+  }
+}
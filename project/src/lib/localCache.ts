@@ -0,0 +1,123 @@
+export type CachedCollection = 'projects' | 'tasks' | 'notes' | 'resources' | 'reminders';
+
+export interface CachedRow {
+  id: string;
+}
+
+const DB_NAME = 'project_cache';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const COLLECTIONS: CachedCollection[] = ['projects', 'tasks', 'notes', 'resources', 'reminders'];
+
+/**
+ * IndexedDB copy of everything the store has read or written, so lists can
+ * still be browsed offline. Every method degrades to a no-op (or an empty
+ * result) where IndexedDB isn't available.
+ */
+class LocalCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          for (const collection of COLLECTIONS) {
+            if (!request.result.objectStoreNames.contains(collection)) {
+              request.result.createObjectStore(collection, { keyPath: 'id' });
+            }
+          }
+          if (!request.result.objectStoreNames.contains(META_STORE)) {
+            request.result.createObjectStore(META_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again instead of caching the failure
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private get available() {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private async transaction(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    if (!this.available) return;
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getAll<T extends CachedRow>(collection: CachedCollection): Promise<T[]> {
+    let rows: T[] = [];
+    await this.transaction(collection, 'readonly', store => {
+      const request = store.getAll();
+      request.onsuccess = () => {
+        rows = request.result;
+      };
+    });
+    return rows;
+  }
+
+  async put(collection: CachedCollection, rows: CachedRow[]) {
+    if (rows.length === 0) return;
+    await this.transaction(collection, 'readwrite', store => {
+      rows.forEach(row => store.put(row));
+    });
+  }
+
+  async remove(collection: CachedCollection, ids: string[]) {
+    if (ids.length === 0) return;
+    await this.transaction(collection, 'readwrite', store => {
+      ids.forEach(id => store.delete(id));
+    });
+  }
+
+  // Drops cached rows that shouldKeep rejects, e.g. ones deleted on the server
+  async retain(collection: CachedCollection, shouldKeep: (id: string) => boolean) {
+    const cached = await this.getAll(collection);
+    await this.remove(collection, cached.map(row => row.id).filter(id => !shouldKeep(id)));
+  }
+
+  // Forgets everything, including sync timestamps, e.g. when another user signs in
+  async clear() {
+    for (const storeName of [...COLLECTIONS, META_STORE]) {
+      await this.transaction(storeName, 'readwrite', store => {
+        store.clear();
+      });
+    }
+  }
+
+  async getLastSync(collection: CachedCollection): Promise<string | null> {
+    let value: string | null = null;
+    await this.transaction(META_STORE, 'readonly', store => {
+      const request = store.get(`last_sync:${collection}`);
+      request.onsuccess = () => {
+        value = request.result ?? null;
+      };
+    });
+    return value;
+  }
+
+  async setLastSync(collection: CachedCollection, timestamp: string) {
+    await this.transaction(META_STORE, 'readwrite', store => {
+      store.put(timestamp, `last_sync:${collection}`);
+    });
+  }
+}
+
+export const localCache = new LocalCache();
@@ -1,36 +1,87 @@
+import { withRetry } from './retryHandler';
+import { parseError } from './errorHandler';
+
 export interface QueuedOperation {
   id: string;
-  type: 'create' | 'update' | 'delete';
+  type: 'create' | 'update' | 'archive' | 'unarchive' | 'trash' | 'restore' | 'delete';
   entity: 'project' | 'task' | 'note' | 'resource' | 'reminder';
   data: any;
   timestamp: number;
   retryCount: number;
+  // Client-side id given to an entity created offline, swapped for the server id on replay
+  tempId?: string;
+  // Local row as it was before an optimistic update, archive, trash or delete.
+  // Its updated_at is the version an update expects to find on the server.
+  previous?: { id: string; updated_at?: string };
+}
+
+// An operation that kept failing while online; kept until the user retries or discards it
+export interface FailedOperation extends QueuedOperation {
+  error: string;
+  failedAt: number;
+  // Server row for an update that lost to a concurrent change
+  conflict?: Record<string, unknown>;
 }
 
+// Thrown by a replay when the server row changed since the operation was queued
+export class ConflictError extends Error {
+  constructor(readonly server: Record<string, unknown>) {
+    super('This item was changed by someone else while you were offline.');
+    this.name = 'ConflictError';
+  }
+}
+
+export interface OperationHandler {
+  replay: (operation: QueuedOperation) => Promise<void>;
+  // Undoes the operation's optimistic local changes once it has failed for good
+  rollback?: (operation: QueuedOperation) => void;
+}
+
+const MAX_RETRIES = 3;
+
 class OfflineQueue {
   private readonly STORAGE_KEY = 'offline_queue';
+  private readonly FAILED_STORAGE_KEY = 'offline_queue_failed';
   private queue: QueuedOperation[] = [];
+  private failed: FailedOperation[] = [];
+  private handlers = new Map<QueuedOperation['entity'], OperationHandler>();
+  private listeners = new Set<() => void>();
   private isProcessing = false;
 
   constructor() {
-    this.loadQueue();
+    this.queue = this.load(this.STORAGE_KEY);
+    this.failed = this.load(this.FAILED_STORAGE_KEY);
     window.addEventListener('online', () => this.processQueue());
   }
 
-  private loadQueue() {
-    const stored = localStorage.getItem(this.STORAGE_KEY);
-    if (stored) {
-      try {
-        this.queue = JSON.parse(stored);
-      } catch (error) {
-        console.error('Error loading offline queue:', error);
-        this.queue = [];
-      }
+  private load<T>(key: string): T[] {
+    const stored = localStorage.getItem(key);
+    if (!stored) return [];
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error('Error loading offline queue:', error);
+      return [];
     }
   }
 
   private saveQueue() {
     localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.queue));
+    localStorage.setItem(this.FAILED_STORAGE_KEY, JSON.stringify(this.failed));
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Registering also flushes anything queued before the handler existed
+  registerHandler(entity: QueuedOperation['entity'], handler: OperationHandler) {
+    this.handlers.set(entity, handler);
+    this.processQueue();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   addOperation(operation: Omit<QueuedOperation, 'id' | 'timestamp' | 'retryCount'>) {
@@ -57,41 +108,114 @@ class OfflineQueue {
     this.isProcessing = true;
 
     try {
-      const operations = [...this.queue];
-      for (const operation of operations) {
+      // Strictly in order, so later edits apply on top of earlier ones
+      while (this.queue.length > 0 && navigator.onLine) {
+        const operation = this.queue[0];
+        const handler = this.handlers.get(operation.entity);
+        if (!handler) break;
+
         try {
-          await this.processOperation(operation);
-          this.queue = this.queue.filter(op => op.id !== operation.id);
-          this.saveQueue();
+          await withRetry(
+            async () => {
+              operation.retryCount++;
+              await handler.replay(operation);
+            },
+            {
+              maxRetries: MAX_RETRIES,
+              shouldRetry: error => !(error instanceof ConflictError) && navigator.onLine && parseError(error).retryable
+            }
+          );
+          this.queue.shift();
         } catch (error) {
-          operation.retryCount++;
-          if (operation.retryCount >= 3) {
-            this.queue = this.queue.filter(op => op.id !== operation.id);
+          // The connection dropped mid-replay; leave it for the next 'online' event
+          if (!navigator.onLine) break;
+
+          this.queue.shift();
+          if (error instanceof ConflictError) {
+            // Local changes stay visible until the user resolves the conflict
+            this.failed.push({ ...operation, error: error.message, failedAt: Date.now(), conflict: error.server });
+          } else {
+            const appError = parseError(error);
+            this.failed.push({
+              ...operation,
+              error: appError.details ?? appError.message,
+              failedAt: Date.now()
+            });
+            handler.rollback?.(operation);
+            console.error('Offline operation failed:', operation, error);
           }
-          this.saveQueue();
         }
+        this.saveQueue();
       }
     } finally {
       this.isProcessing = false;
     }
   }
 
-  private async processOperation(operation: QueuedOperation) {
-    // Implementation will be handled by the store
-    const event = new CustomEvent('process-offline-operation', {
-      detail: operation
+  // Points queued operations that reference an offline-created entity at its server id
+  remapId(tempId: string, serverId: string) {
+    const remap = <T extends QueuedOperation>(operation: T): T => ({
+      ...operation,
+      data: Object.fromEntries(
+        Object.entries(operation.data ?? {}).map(([key, value]) => [key, value === tempId ? serverId : value])
+      ),
+      previous: operation.previous?.id === tempId ? { ...operation.previous, id: serverId } : operation.previous
     });
-    window.dispatchEvent(event);
+    this.queue = this.queue.map(remap);
+    this.failed = this.failed.map(remap);
+    this.saveQueue();
+  }
+
+  // After a replayed update, later queued edits of the same row expect the new version
+  updateBaseVersion(entity: QueuedOperation['entity'], id: string, updatedAt: string) {
+    this.queue = this.queue.map(operation =>
+      operation.entity === entity && operation.data?.id === id && operation.previous
+        ? { ...operation, previous: { ...operation.previous, updated_at: updatedAt } }
+        : operation
+    );
+    this.saveQueue();
   }
 
   getQueuedOperations(): QueuedOperation[] {
     return [...this.queue];
   }
 
+  getFailedOperations(): FailedOperation[] {
+    return [...this.failed];
+  }
+
+  // Changes replace the operation's data or base version, e.g. when resolving a conflict
+  retryFailedOperation(id: string, changes: Partial<Pick<QueuedOperation, 'data' | 'previous'>> = {}) {
+    const failed = this.failed.find(op => op.id === id);
+    if (!failed) return;
+
+    this.failed = this.failed.filter(op => op.id !== id);
+    this.queue.push({
+      id: failed.id,
+      type: failed.type,
+      entity: failed.entity,
+      data: failed.data,
+      timestamp: failed.timestamp,
+      retryCount: 0,
+      tempId: failed.tempId,
+      previous: failed.previous,
+      ...changes
+    });
+    this.saveQueue();
+    this.processQueue();
+  }
+
+  discardFailedOperation(id: string) {
+    this.failed = this.failed.filter(op => op.id !== id);
+    this.saveQueue();
+  }
+
+  // Also drops failed operations; used when the signed-in user changes
   clearQueue() {
     this.queue = [];
+    this.failed = [];
     this.saveQueue();
   }
 }
 
-export const offlineQueue = new OfflineQueue();
\ No newline at end of file
+export const offlineQueue = new OfflineQueue();
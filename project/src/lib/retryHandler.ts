@@ -6,6 +6,8 @@ export interface RetryOptions {
   maxRetries?: number;
   initialDelay?: number;
   maxDelay?: number;
+  // Return false to fail immediately, e.g. for aborted requests
+  shouldRetry?: (error: Error) => boolean;
 }
 
 export async function withRetry<T>(
@@ -25,7 +27,7 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || options.shouldRetry?.(lastError) === false) {
         throw lastError;
       }
 
@@ -11,7 +11,7 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
     autoRefreshToken: true,
     persistSession: true,
-    detectSessionInUrl: false
+    detectSessionInUrl: true
   },
   db: {
     schema: 'public'
@@ -32,5 +32,41 @@ export const initializeAuth = async () => {
   }
 };
 
+// Email links land back on the app, which picks up the session from the URL
+const emailRedirectTo = () => window.location.origin;
+
+export const signInWithPassword = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+};
+
+export const sendMagicLink = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: emailRedirectTo() }
+  });
+  if (error) throw error;
+};
+
+// An anonymous user is upgraded in place rather than replaced, so their id and
+// everything they own carry over. Confirming the email completes the upgrade.
+export const createAccount = async (email: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const { error } = session?.user.is_anonymous
+    ? await supabase.auth.updateUser({ email }, { emailRedirectTo: emailRedirectTo() })
+    : await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: emailRedirectTo() } });
+  if (error) throw error;
+};
+
+export const setPassword = async (password: string) => {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw error;
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+};
+
 // Call this immediately
 initializeAuth().catch(console.error);
\ No newline at end of file
@@ -0,0 +1,323 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Project, Task } from '../types';
+
+// The store expects a browser; these stand in for the parts it touches
+const network = vi.hoisted(() => {
+  const storage = new Map<string, string>();
+  const network = { onLine: false };
+  Object.assign(globalThis, {
+    window: { addEventListener: () => {} },
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    }
+  });
+  Object.defineProperty(globalThis, 'navigator', { value: network, configurable: true });
+  return network;
+});
+
+// In-memory tables behind just enough of the Supabase query builder for the write path
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  const tables = new Map<string, Row[]>();
+  let clock = 0;
+  const db = {
+    // The next write fails with this error
+    failNextWith: null as Error | null,
+    rows(table: string) {
+      if (!tables.has(table)) tables.set(table, []);
+      return tables.get(table)!;
+    },
+    stamp: () => new Date(Date.UTC(2025, 2, 12, 9, 0, ++clock)).toISOString(),
+    reset() {
+      tables.clear();
+      db.failNextWith = null;
+    },
+    from(table: string) {
+      let action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+      let values: Row | Row[] = {};
+      const filters: [string, unknown][] = [];
+
+      const run = (): { data: Row[]; error: Error | null } => {
+        if (action !== 'select' && db.failNextWith) {
+          const error = db.failNextWith;
+          db.failNextWith = null;
+          return { data: [], error };
+        }
+        const rows = db.rows(table);
+        const matches = rows.filter((row) => filters.every(([field, value]) => row[field] === value));
+        switch (action) {
+          case 'insert': {
+            const inserted = (values as Row[]).map((row) => {
+              const now = db.stamp();
+              return { ...row, id: `server-${rows.length + 1}`, created_at: now, updated_at: now };
+            });
+            rows.push(...inserted);
+            return { data: inserted.map((row) => ({ ...row })), error: null };
+          }
+          case 'update':
+            matches.forEach((row) => Object.assign(row, values, { updated_at: db.stamp() }));
+            return { data: matches.map((row) => ({ ...row })), error: null };
+          case 'delete':
+            tables.set(table, rows.filter((row) => !matches.includes(row)));
+            return { data: matches, error: null };
+          case 'select':
+            return { data: matches.map((row) => ({ ...row })), error: null };
+        }
+      };
+
+      const query = {
+        insert: (rows: Row[]) => ((action = 'insert'), (values = rows), query),
+        update: (changes: Row) => ((action = 'update'), (values = changes), query),
+        delete: () => ((action = 'delete'), query),
+        select: () => query,
+        eq: (field: string, value: unknown) => (filters.push([field, value]), query),
+        single: async () => {
+          const { data, error } = run();
+          if (error) return { data: null, error };
+          return data.length === 1 ? { data: data[0], error: null } : { data: null, error: new Error('Expected one row') };
+        },
+        maybeSingle: async () => {
+          const { data, error } = run();
+          return { data: error ? null : data[0] ?? null, error };
+        }
+      };
+      return query;
+    }
+  };
+  return db;
+});
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => db.from(table),
+    auth: { onAuthStateChange: () => ({ data: { subscription: { unsubscribe: () => {} } } }) }
+  },
+  initializeAuth: async () => true,
+  signInWithPassword: async () => {},
+  sendMagicLink: async () => {},
+  createAccount: async () => {},
+  setPassword: async () => {},
+  signOut: async () => {}
+}));
+
+vi.mock('../lib/localCache', () => ({
+  localCache: {
+    put: async () => {},
+    remove: async () => {},
+    getAll: async () => [],
+    retain: async () => {},
+    getLastSync: async () => null,
+    setLastSync: async () => {},
+    clear: async () => {}
+  }
+}));
+
+const { useStore } = await import('./index');
+const { offlineQueue } = await import('../lib/offlineQueue');
+
+const PROJECT = { id: 'project-1', name: 'Launch', archived: false } as Project;
+
+// A PostgREST error the queue won't retry
+const duplicateError = () => Object.assign(new Error('duplicate key value'), { code: '23505' });
+
+const newTask = (name: string) => ({
+  project_id: PROJECT.id,
+  name,
+  description: null,
+  phase: 'Planning' as const,
+  priority: 'Medium' as const,
+  due_date: null,
+  completed: false
+});
+
+// A task that is already on the server and shown in the store
+function existingTask(name: string): Task {
+  const now = db.stamp();
+  const task: Task = { ...newTask(name), id: `task-${name}`, assignee_ids: [], created_at: now, updated_at: now, deleted_at: null };
+  db.rows('tasks').push({ ...task });
+  useStore.setState((state) => ({ tasks: [...state.tasks, task] }));
+  return task;
+}
+
+// Goes back online and waits for everything queued to replay
+async function reconnect() {
+  network.onLine = true;
+  await offlineQueue.processQueue();
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  network.onLine = false;
+  offlineQueue.clearQueue();
+  db.reset();
+  useStore.setState({
+    selectedProject: PROJECT,
+    projects: [PROJECT],
+    projectRole: 'owner',
+    taskScope: 'project',
+    tasks: [],
+    notes: [],
+    undoStack: [],
+    redoStack: [],
+    error: null,
+    lastError: null
+  });
+});
+
+describe('offline queue replay', () => {
+  it('holds writes while offline and sends them in order on reconnect', async () => {
+    const task = existingTask('draft');
+    await useStore.getState().updateTask(task.id, { name: 'first' });
+    await useStore.getState().updateTask(task.id, { priority: 'High' });
+    expect(db.rows('tasks')[0]).toMatchObject({ name: 'draft', priority: 'Medium' });
+    expect(offlineQueue.getQueuedOperations()).toHaveLength(2);
+
+    await reconnect();
+    expect(offlineQueue.getQueuedOperations()).toHaveLength(0);
+    expect(db.rows('tasks')[0]).toMatchObject({ name: 'first', priority: 'High' });
+  });
+
+  it('keeps a write that fails for good in the failed list until it is retried', async () => {
+    const task = existingTask('draft');
+    await useStore.getState().updateTask(task.id, { name: 'renamed' });
+    db.failNextWith = duplicateError();
+
+    await reconnect();
+    const [failed] = useStore.getState().failedOperations;
+    expect(failed).toMatchObject({ type: 'update', entity: 'task', error: 'A unique constraint was violated.' });
+    expect(offlineQueue.getQueuedOperations()).toHaveLength(0);
+
+    useStore.getState().retryFailedOperation(failed.id);
+    await vi.waitFor(() => expect(useStore.getState().failedOperations).toHaveLength(0));
+    expect(db.rows('tasks')[0]).toMatchObject({ name: 'renamed' });
+  });
+
+  it('forgets a discarded failure without sending it', async () => {
+    const task = existingTask('draft');
+    await useStore.getState().updateTask(task.id, { name: 'renamed' });
+    db.failNextWith = duplicateError();
+    await reconnect();
+
+    useStore.getState().discardFailedOperation(useStore.getState().failedOperations[0].id);
+    expect(useStore.getState().failedOperations).toHaveLength(0);
+    await offlineQueue.processQueue();
+    expect(db.rows('tasks')[0]).toMatchObject({ name: 'draft' });
+  });
+});
+
+describe('optimistic offline changes', () => {
+  it('shows an offline create under a temporary id and swaps in the server id on replay', async () => {
+    const { row } = await useStore.getState().createTask(newTask('draft'));
+    const tempId = row!.id;
+    expect(tempId).toMatch(/^temp-/);
+    expect(useStore.getState().tasks).toEqual([expect.objectContaining({ id: tempId, name: 'draft' })]);
+
+    // Follow-up edits and linked rows reference the temporary id until it syncs
+    await useStore.getState().updateTask(tempId, { name: 'final' });
+    await useStore.getState().createNote({ project_id: null, task_id: tempId, content: 'Check copy', tags: [] });
+    expect(offlineQueue.getQueuedOperations().map((op) => op.data.id ?? op.data.task_id)).toEqual([
+      undefined,
+      tempId,
+      tempId
+    ]);
+
+    await reconnect();
+    const [serverTask] = db.rows('tasks');
+    expect(serverTask).toMatchObject({ name: 'final' });
+    expect(db.rows('notes')).toEqual([expect.objectContaining({ task_id: serverTask.id, content: 'Check copy' })]);
+    expect(useStore.getState().tasks).toEqual([expect.objectContaining({ id: serverTask.id, name: 'final' })]);
+    expect(useStore.getState().notes).toEqual([expect.objectContaining({ task_id: serverTask.id })]);
+  });
+
+  it('lets undo reach an offline-created row after it syncs', async () => {
+    await useStore.getState().createTask(newTask('draft'));
+    await reconnect();
+
+    await useStore.getState().undo();
+    expect(db.rows('tasks')).toHaveLength(0);
+    expect(useStore.getState().tasks).toHaveLength(0);
+  });
+
+  it('removes an offline create that fails for good', async () => {
+    await useStore.getState().createTask(newTask('draft'));
+    db.failNextWith = duplicateError();
+
+    await reconnect();
+    expect(useStore.getState().tasks).toHaveLength(0);
+    expect(useStore.getState().failedOperations).toHaveLength(1);
+  });
+
+  it('puts back the previous row when an offline edit or delete fails for good', async () => {
+    const renamed = existingTask('renamed');
+    const deleted = existingTask('deleted');
+    await useStore.getState().updateTask(renamed.id, { name: 'changed', priority: 'High' });
+    await useStore.getState().deleteTask(deleted.id);
+    expect(useStore.getState().tasks).toEqual([expect.objectContaining({ name: 'changed', priority: 'High' })]);
+
+    db.failNextWith = duplicateError();
+    await reconnect();
+    // The delete went through; only the failed edit is undone locally
+    expect(useStore.getState().tasks).toEqual([renamed]);
+
+    const task = existingTask('other');
+    network.onLine = false;
+    await useStore.getState().deleteTask(task.id);
+    db.failNextWith = duplicateError();
+    await reconnect();
+    expect(useStore.getState().tasks).toEqual(expect.arrayContaining([task]));
+  });
+});
+
+describe('conflicting offline edits', () => {
+  // Someone else edits the task on the server while this session is offline
+  async function editedOnBothSides() {
+    const task = existingTask('draft');
+    await useStore.getState().updateTask(task.id, { name: 'mine', priority: 'High' });
+    Object.assign(db.rows('tasks')[0], { name: 'theirs', phase: 'On Hold', updated_at: db.stamp() });
+    await reconnect();
+    return task;
+  }
+
+  it("keeps an edit made against an older version instead of overwriting the server's", async () => {
+    const task = await editedOnBothSides();
+
+    const [failed] = useStore.getState().failedOperations;
+    expect(failed.conflict).toMatchObject({ id: task.id, name: 'theirs', phase: 'On Hold' });
+    expect(db.rows('tasks')[0]).toMatchObject({ name: 'theirs', priority: 'Medium' });
+    // The local edit stays on screen while the user decides
+    expect(useStore.getState().tasks[0]).toMatchObject({ name: 'mine', priority: 'High' });
+  });
+
+  it("doesn't treat this session's own earlier edits as conflicts", async () => {
+    const task = existingTask('draft');
+    await useStore.getState().updateTask(task.id, { name: 'first' });
+    await useStore.getState().updateTask(task.id, { name: 'second' });
+
+    await reconnect();
+    expect(useStore.getState().failedOperations).toHaveLength(0);
+    expect(db.rows('tasks')[0]).toMatchObject({ name: 'second' });
+  });
+
+  it('merges the fields picked from each side', async () => {
+    await editedOnBothSides();
+    const [failed] = useStore.getState().failedOperations;
+
+    useStore.getState().resolveConflict(failed.id, { name: 'theirs', priority: 'mine' });
+    await vi.waitFor(() => expect(useStore.getState().failedOperations).toHaveLength(0));
+    expect(db.rows('tasks')[0]).toMatchObject({ name: 'theirs', phase: 'On Hold', priority: 'High' });
+    expect(useStore.getState().tasks[0]).toMatchObject({ name: 'theirs', phase: 'On Hold', priority: 'High' });
+  });
+
+  it('takes the server row as is when nothing of ours is kept', async () => {
+    await editedOnBothSides();
+    const [failed] = useStore.getState().failedOperations;
+    const serverVersion = db.rows('tasks')[0].updated_at;
+
+    useStore.getState().resolveConflict(failed.id, { name: 'theirs', priority: 'theirs' });
+    expect(useStore.getState().failedOperations).toHaveLength(0);
+    expect(db.rows('tasks')[0].updated_at).toBe(serverVersion);
+    expect(useStore.getState().tasks[0]).toMatchObject({ name: 'theirs', priority: 'Medium' });
+  });
+});
@@ -1,19 +1,818 @@
-import { create } from 'zustand';
-import { Message, Project, Task, Note, Resource, Reminder } from '../types';
-import { supabase, initializeAuth } from '../lib/supabase';
+import { create, StoreApi } from 'zustand';
+import { format } from 'date-fns';
+import {
+  Message,
+  Project,
+  Task,
+  Note,
+  Resource,
+  Reminder,
+  TaskFilters,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  ProjectShare,
+  ProjectMember,
+  ActivityLog,
+  TrashItem
+} from '../types';
+import { RealtimeChannel, RealtimePostgresChangesPayload, User } from '@supabase/supabase-js';
+import {
+  supabase,
+  initializeAuth,
+  signInWithPassword,
+  sendMagicLink,
+  createAccount,
+  setPassword,
+  signOut
+} from '../lib/supabase';
 import { withRetry } from '../lib/retryHandler';
 import { parseError, AppError } from '../lib/errorHandler';
-import { offlineQueue, QueuedOperation } from '../lib/offlineQueue';
+import { offlineQueue, QueuedOperation, FailedOperation, ConflictError } from '../lib/offlineQueue';
+import { localCache, CachedCollection, CachedRow } from '../lib/localCache';
 
 const ITEMS_PER_PAGE = 10;
+const MESSAGES_PER_PAGE = 50;
+const MESSAGE_COLUMNS = 'id, type, content, status, timestamp';
+const ACTIVITY_PER_PAGE = 30;
+// Matches purge_trash() in the database
+export const TRASH_RETENTION_DAYS = 30;
+const SELECTED_WORKSPACE_KEY = 'selected_workspace';
+
+// Projects in the selected workspace; with none selected, personal projects plus ones
+// shared from workspaces the user isn't a member of. Returns a PostgREST or() filter.
+function workspaceFilter(selectedWorkspaceId: string | null, workspaces: Workspace[]) {
+  if (selectedWorkspaceId) return `workspace_id.eq.${selectedWorkspaceId}`;
+  if (workspaces.length === 0) return null;
+  return `workspace_id.is.null,workspace_id.not.in.(${workspaces.map((w) => w.id).join(',')})`;
+}
+
+// The same rule as workspaceFilter, for rows read from the local cache
+function inWorkspace(project: Project, selectedWorkspaceId: string | null, workspaces: Workspace[]) {
+  if (selectedWorkspaceId) return project.workspace_id === selectedWorkspaceId;
+  return !project.workspace_id || !workspaces.some((w) => w.id === project.workspace_id);
+}
+
+// null when the role can't be looked up, e.g. offline; the server still enforces it on sync
+async function fetchProjectRole(projectId: string): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase.rpc('project_role', { target: projectId });
+  if (error) {
+    console.error('Error fetching project role:', error);
+    return null;
+  }
+  return data;
+}
+
+// Streaming replies are written once they finish rather than on every token
+async function persistMessage(message: Message, projectId: string | null) {
+  if (message.status === 'streaming') return;
+
+  const { error } = await supabase
+    .from('messages')
+    .upsert({
+      id: message.id,
+      project_id: projectId,
+      type: message.type,
+      content: message.content,
+      status: message.status ?? null,
+      timestamp: message.timestamp
+    });
+
+  if (error) throw error;
+}
+
+// Messages whose last save failed, e.g. because they were sent offline; saved again on reconnect
+const unsavedMessages = new Map<string, { message: Message; projectId: string | null }>();
+
+// A failed save stays with the message rather than the shared error, so it can't be
+// mistaken for the failure of whatever command the message was about
+function saveMessage(message: Message, projectId: string | null) {
+  persistMessage(message, projectId)
+    .then(() => {
+      unsavedMessages.delete(message.id);
+    })
+    .catch((error) => {
+      unsavedMessages.set(message.id, { message, projectId });
+      console.error('Error saving message:', error);
+    })
+    .finally(() => useStore.setState({ unsavedMessageIds: [...unsavedMessages.keys()] }));
+}
+
+type Mutation = Pick<QueuedOperation, 'type' | 'entity' | 'data' | 'tempId' | 'previous'>;
+
+const TEMP_ID_PREFIX = 'temp-';
+
+export const isTempId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+// Rows cached before tasks had assignees come back without the column
+export const taskAssignees = (task: Task): string[] => task.assignee_ids ?? [];
+
+// Columns that can point at an entity created offline
+const REFERENCE_FIELDS = ['project_id', 'task_id', 'linked_entity_id'] as const;
+
+// Table names double as the state keys holding each entity's rows
+const ENTITY_COLLECTIONS = {
+  project: 'projects',
+  task: 'tasks',
+  note: 'notes',
+  resource: 'resources',
+  reminder: 'reminders'
+} as const;
+
+const TRASH_ENTITIES = ['task', 'note', 'resource', 'reminder'] as const;
+
+const deletedFirst = (a: TrashItem, b: TrashItem) => (b.row.deleted_at ?? '').localeCompare(a.row.deleted_at ?? '');
+
+const PAST_TENSE: Record<Mutation['type'], string> = {
+  create: 'created',
+  update: 'updated',
+  archive: 'archived',
+  unarchive: 'restored',
+  trash: 'deleted',
+  restore: 'restored',
+  delete: 'deleted'
+};
+
+// Writes a mutation to Supabase and returns the affected row (null for deletes)
+async function runMutation({ type, entity, data, previous }: Mutation) {
+  await initializeAuth();
+  const table = supabase.from(ENTITY_COLLECTIONS[entity]);
+
+  const { data: row, error } = await (() => {
+    switch (type) {
+      case 'create':
+        return table.insert([data]).select().single();
+      case 'update': {
+        const { id, ...updates } = data;
+        let query = table.update(updates).eq('id', id);
+        // Replayed edits only apply to the version they were made against
+        if (previous?.updated_at) {
+          query = query.eq('updated_at', previous.updated_at);
+        }
+        return query.select().maybeSingle();
+      }
+      case 'archive':
+        return table.update({ archived: true }).eq('id', data.id).select().single();
+      case 'unarchive':
+        return table.update({ archived: false }).eq('id', data.id).select().single();
+      case 'trash':
+        return table.update({ deleted_at: new Date().toISOString() }).eq('id', data.id).select().single();
+      case 'restore':
+        return table.update({ deleted_at: null }).eq('id', data.id).select().single();
+      case 'delete':
+        return table.delete().eq('id', data.id).select().maybeSingle();
+    }
+  })();
+
+  if (error) throw error;
+
+  if (type === 'update' && !row) {
+    const { data: server, error: fetchError } = await supabase
+      .from(ENTITY_COLLECTIONS[entity])
+      .select()
+      .eq('id', data.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (server) throw new ConflictError(server);
+    throw new Error(`This ${entity} no longer exists.`);
+  }
+
+  return type === 'delete' ? null : row;
+}
+
+function cacheRows(collection: CachedCollection, rows: CachedRow[]) {
+  localCache.put(collection, rows).catch((error) => console.error('Error writing local cache:', error));
+}
+
+function uncache(collection: CachedCollection, ids: string[]) {
+  localCache.remove(collection, ids).catch((error) => console.error('Error writing local cache:', error));
+}
+
+const newestFirst = (a: { created_at: string }, b: { created_at: string }) =>
+  b.created_at.localeCompare(a.created_at);
+
+// Same paging rules as the server-side reads, applied to cached rows
+function paginate<T>(rows: T[], page: number) {
+  const totalPages = Math.max(1, Math.ceil(rows.length / ITEMS_PER_PAGE));
+  const currentPage = Math.min(Math.max(1, page), totalPages);
+  return {
+    items: rows.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE),
+    totalPages,
+    currentPage
+  };
+}
+
+// Serves a failed read from the local cache; returns false when there is nothing cached to show
+async function readFromCache<T extends CachedRow>(
+  set: StoreSet,
+  collection: CachedCollection,
+  error: unknown,
+  toState: (rows: T[]) => Partial<AppState>
+): Promise<boolean> {
+  try {
+    const rows = await localCache.getAll<T>(collection);
+    if (rows.length === 0) return false;
+
+    set({
+      ...toState(rows),
+      error: null,
+      lastError: {
+        type: 'network',
+        message: navigator.onLine ? 'Could not reach the server.' : 'You are currently offline.',
+        details: 'Showing the last saved copy of your data.',
+        resolution: 'Changes you make will sync when the connection is back.',
+        retryable: true
+      }
+    });
+    console.warn(`Showing cached ${collection}:`, error);
+    return true;
+  } catch (cacheError) {
+    console.error('Error reading local cache:', cacheError);
+    return false;
+  }
+}
+
+// Tables with updated_at are pulled incrementally; the rest are small enough to reload
+const INCREMENTAL_COLLECTIONS: CachedCollection[] = ['projects', 'tasks', 'notes'];
+
+// Brings the local cache up to date with the server so everything can be browsed offline
+async function refreshLocalCache() {
+  if (!navigator.onLine || !(await initializeAuth())) return;
+
+  for (const collection of Object.values(ENTITY_COLLECTIONS)) {
+    try {
+      // Ids alone are cheap and tell us which cached rows were deleted elsewhere
+      const { data: ids, error: idsError } = await supabase.from(collection).select('id');
+      if (idsError) throw idsError;
+      const serverIds = new Set((ids || []).map((row) => row.id));
+      await localCache.retain(collection, (id) => serverIds.has(id) || isTempId(id));
+
+      const incremental = INCREMENTAL_COLLECTIONS.includes(collection);
+      const lastSync = incremental ? await localCache.getLastSync(collection) : null;
+      let query = supabase.from(collection).select('*');
+      if (lastSync) {
+        query = query.gt('updated_at', lastSync);
+      }
+
+      const { data: rows, error } = await query;
+      if (error) throw error;
+      await localCache.put(collection, rows || []);
+
+      const newest = (rows || []).reduce<string | null>(
+        (latest, row) => (!latest || row.updated_at > latest ? row.updated_at : latest),
+        lastSync
+      );
+      if (incremental && newest) {
+        await localCache.setLastSync(collection, newest);
+      }
+    } catch (error) {
+      console.error(`Error refreshing cached ${collection}:`, error);
+    }
+  }
+}
+
+// Server-side filter for each table's changes within one project. Notes and resources
+// attached to a task have no project_id, and reminders point at either the project or
+// one of its tasks, so those are filtered on arrival instead.
+const REALTIME_FILTERS: Record<CachedCollection, (projectId: string) => string | undefined> = {
+  projects: (projectId) => `id=eq.${projectId}`,
+  tasks: (projectId) => `project_id=eq.${projectId}`,
+  notes: () => undefined,
+  resources: () => undefined,
+  reminders: () => undefined
+};
+
+let realtimeChannel: RealtimeChannel | null = null;
+
+// Echoes of our own writes match the row we already hold
+const isSameRow = (local: CachedRow, incoming: CachedRow) => {
+  const held: Record<string, unknown> = { ...local };
+  return Object.entries(incoming).every(([field, value]) => JSON.stringify(held[field]) === JSON.stringify(value));
+};
+
+function mergeRemoteChange(
+  collection: CachedCollection,
+  projectId: string,
+  payload: RealtimePostgresChangesPayload<CachedRow>
+) {
+  const state = useStore.getState();
+  if (state.selectedProject?.id !== projectId) return;
+  const items = state[collection] as CachedRow[];
+
+  if (payload.eventType === 'DELETE') {
+    // Delete events aren't filtered server-side; only rows we hold matter
+    const id = (payload.old as Partial<CachedRow>).id;
+    if (!id || !items.some((item) => item.id === id)) return;
+    useStore.setState({ [collection]: items.filter((item) => item.id !== id) });
+    uncache(collection, [id]);
+    return;
+  }
+
+  const row = payload.new;
+  // Moving a row to the trash, or archiving a project, arrives as an update
+  if ((row as { deleted_at?: string | null }).deleted_at || (collection === 'projects' && (row as Project).archived)) {
+    cacheRows(collection, [row]);
+    useStore.setState((current) => ({
+      [collection]: items.filter((item) => item.id !== row.id),
+      ...(collection === 'projects' && current.selectedProject?.id === row.id
+        ? { selectedProject: row as Project }
+        : {})
+    }));
+    return;
+  }
+
+  if (collection === 'notes' || collection === 'resources') {
+    const { project_id, task_id } = row as Partial<Note>;
+    if (project_id !== projectId && !state.tasks.some((task) => task.id === task_id)) return;
+  }
+  if (collection === 'reminders') {
+    const linkedId = (row as Partial<Reminder>).linked_entity_id;
+    if (linkedId !== projectId && !state.tasks.some((task) => task.id === linkedId)) return;
+  }
+
+  const local = items.find((item) => item.id === row.id);
+  if (local && isSameRow(local, row)) return;
+  // "My tasks" only picks up new tasks that are assigned to the user
+  if (
+    collection === 'tasks' &&
+    !local &&
+    state.taskScope === 'mine' &&
+    !taskAssignees(row as Task).includes(state.user?.id ?? '')
+  ) {
+    return;
+  }
+
+  useStore.setState((current) => ({
+    [collection]: local
+      ? items.map((item) => (item.id === row.id ? row : item))
+      : [row, ...items],
+    ...(collection === 'projects' && current.selectedProject?.id === row.id
+      ? { selectedProject: row as Project }
+      : {}),
+    remoteChanges: { ...current.remoteChanges, [row.id]: new Date().toISOString() }
+  }));
+}
+
+// New log entries arrive for every session's changes, including our own
+function addActivity(projectId: string, entry: ActivityLog) {
+  const { selectedProject, activity } = useStore.getState();
+  if (selectedProject?.id !== projectId || activity.some((item) => item.id === entry.id)) return;
+  useStore.setState({ activity: [entry, ...activity] });
+}
+
+// Keeps the selected project's rows in step with changes made in other sessions
+function subscribeToProject(projectId: string | null) {
+  if (realtimeChannel) {
+    supabase.removeChannel(realtimeChannel);
+    realtimeChannel = null;
+  }
+  if (!projectId) return;
+
+  const channel = supabase.channel(`project:${projectId}`);
+  Object.values(ENTITY_COLLECTIONS).forEach((collection) => {
+    const filter = REALTIME_FILTERS[collection](projectId);
+    channel.on<CachedRow>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: collection, ...(filter ? { filter } : {}) },
+      (payload) => mergeRemoteChange(collection, projectId, payload)
+    );
+  });
+  channel.on<ActivityLog>(
+    'postgres_changes',
+    { event: 'INSERT', schema: 'public', table: 'activity_logs', filter: `project_id=eq.${projectId}` },
+    (payload) => addActivity(projectId, payload.new)
+  );
+  realtimeChannel = channel.subscribe();
+}
+
+// Whether a created or restored row belongs in the list on screen. Chat commands and
+// undo can touch projects other than the selected one.
+function belongsInView(entity: Mutation['entity'], row: Record<string, unknown>) {
+  const { selectedProject, selectedWorkspaceId, workspaces, taskScope, user, tasks } = useStore.getState();
+  // Undoing a permanent delete puts the row back in the trash
+  if (row.deleted_at) return false;
+  switch (entity) {
+    case 'project':
+      return inWorkspace(row as Project, selectedWorkspaceId, workspaces);
+    case 'task':
+      return taskScope === 'mine'
+        ? taskAssignees(row as Task).includes(user?.id ?? '')
+        : row.project_id === selectedProject?.id;
+    case 'note':
+    case 'resource':
+      return row.project_id === selectedProject?.id || tasks.some((task) => task.id === row.task_id);
+    case 'reminder':
+      return true;
+  }
+}
+
+function applyMutation(set: StoreSet, { type, entity, data, tempId }: Mutation, row: { id: string } | null) {
+  const key = ENTITY_COLLECTIONS[entity];
+  if (tempId) uncache(key, [tempId]);
+  if (type === 'delete') uncache(key, [data.id]);
+  // Archived and trashed rows leave the list, but the cache keeps their current state
+  if (type !== 'create' && type !== 'update' && type !== 'delete' && row) cacheRows(key, [row]);
+  set((state) => {
+    const items = state[key] as { id: string }[];
+    // The open project stays open when it is edited, archived or restored
+    const selected = entity === 'project' && row && state.selectedProject?.id === data.id
+      ? { selectedProject: row as Project }
+      : {};
+    switch (type) {
+      case 'create':
+      case 'unarchive':
+      case 'restore':
+        // Replaces the optimistic row when replaying an offline create or restore
+        if (items.some((item) => item.id === (tempId ?? data.id))) {
+          return { [key]: items.map((item) => (item.id === (tempId ?? data.id) ? row : item)), ...selected };
+        }
+        return row && belongsInView(entity, row) ? { [key]: [row, ...items], ...selected } : selected;
+      case 'update':
+        return { [key]: items.map((item) => (item.id === data.id ? row : item)), ...selected };
+      case 'archive':
+        return { [key]: items.filter((item) => item.id !== data.id), ...selected };
+      case 'trash':
+      case 'delete':
+        return { [key]: items.filter((item) => item.id !== data.id) };
+    }
+  });
+}
+
+// True when the mutation targets or links to an entity that hasn't synced yet
+const referencesTempId = (data: Record<string, unknown>) =>
+  ['id', ...REFERENCE_FIELDS].some((field) => typeof data[field] === 'string' && isTempId(data[field] as string));
+
+// Shows an offline mutation in local state right away and records what a rollback needs
+function applyOptimistic(set: StoreSet, get: StoreGet, mutation: Mutation): Mutation {
+  const key = ENTITY_COLLECTIONS[mutation.entity];
+  const items = get()[key] as { id: string }[];
+
+  if (mutation.type === 'create') {
+    const now = new Date().toISOString();
+    const tempId = `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+    const row = { ...mutation.data, id: tempId, created_at: now, updated_at: now };
+    if (belongsInView(mutation.entity, row)) set({ [key]: [row, ...items] });
+    return { ...mutation, tempId };
+  }
+
+  // Restores carry the whole archived or trashed row so it can be shown again
+  if (mutation.type === 'unarchive' || mutation.type === 'restore') {
+    const row = { ...mutation.data, ...(mutation.type === 'unarchive' ? { archived: false } : { deleted_at: null }) };
+    if (belongsInView(mutation.entity, row)) set({ [key]: [row, ...items.filter((item) => item.id !== row.id)] });
+    if (mutation.entity === 'project' && get().selectedProject?.id === row.id) set({ selectedProject: row as Project });
+    cacheRows(key, [row]);
+    return mutation;
+  }
+
+  const previous = items.find((item) => item.id === mutation.data.id);
+  if (mutation.type === 'update') {
+    const { selectedProject } = get();
+    set({
+      [key]: items.map((item) => (item.id === mutation.data.id ? { ...item, ...mutation.data } : item)),
+      ...(mutation.entity === 'project' && selectedProject?.id === mutation.data.id
+        ? { selectedProject: { ...selectedProject, ...mutation.data } }
+        : {})
+    });
+  } else {
+    set({ [key]: items.filter((item) => item.id !== mutation.data.id) });
+    if (mutation.type === 'delete') uncache(key, [mutation.data.id]);
+    if (mutation.type === 'archive' && previous) cacheRows(key, [{ ...previous, archived: true } as CachedRow]);
+    if (mutation.type === 'trash' && previous) {
+      cacheRows(key, [{ ...previous, deleted_at: new Date().toISOString() } as CachedRow]);
+    }
+    const selectedProject = get().selectedProject;
+    if (mutation.type === 'archive' && selectedProject && mutation.entity === 'project') {
+      if (selectedProject.id === mutation.data.id) set({ selectedProject: { ...selectedProject, archived: true } });
+    }
+  }
+  return { ...mutation, previous };
+}
+
+function rollbackOptimistic(set: StoreSet, { type, entity, data, tempId, previous }: Mutation) {
+  const key = ENTITY_COLLECTIONS[entity];
+  set((state) => {
+    const items = state[key] as { id: string }[];
+    const isSelected = entity === 'project' && state.selectedProject?.id === data.id;
+    if (type === 'create') {
+      if (tempId) uncache(key, [tempId]);
+      return { [key]: items.filter((item) => item.id !== tempId) };
+    }
+    if (type === 'unarchive' || type === 'restore') {
+      cacheRows(key, [data]);
+      return { [key]: items.filter((item) => item.id !== data.id), ...(isSelected ? { selectedProject: data as Project } : {}) };
+    }
+    if (!previous) return {};
+    const selected = isSelected ? { selectedProject: previous as Project } : {};
+    return type === 'update'
+      ? { [key]: items.map((item) => (item.id === data.id ? previous : item)), ...selected }
+      : { [key]: [previous, ...items.filter((item) => item.id !== previous.id)], ...selected };
+  });
+}
+
+// Swaps an offline-created entity's temporary id for its server id everywhere in local state
+function remapTempId(set: StoreSet, tempId: string, serverId: string) {
+  const remap = <T extends { id: string }>(item: T): T => {
+    const fields = REFERENCE_FIELDS.filter((field) => (item as Record<string, unknown>)[field] === tempId);
+    if (fields.length === 0) return item;
+    return { ...item, ...Object.fromEntries(fields.map((field) => [field, serverId])) };
+  };
+
+  // Undo steps can also point at the entity itself
+  const remapHistory = (entries: HistoryEntry[]) =>
+    entries.map((entry) => ({
+      ...entry,
+      mutations: entry.mutations.map((mutation) => {
+        const data = remap(mutation.data);
+        return { ...mutation, data: data.id === tempId ? { ...data, id: serverId } : data };
+      })
+    }));
+
+  set((state) => ({
+    undoStack: remapHistory(state.undoStack),
+    redoStack: remapHistory(state.redoStack),
+    tasks: state.tasks.map(remap),
+    notes: state.notes.map(remap),
+    resources: state.resources.map(remap),
+    reminders: state.reminders.map(remap),
+    selectedProject: state.selectedProject?.id === tempId
+      ? state.projects.find((project) => project.id === serverId) ?? state.selectedProject
+      : state.selectedProject
+  }));
+  offlineQueue.remapId(tempId, serverId);
+}
+
+const MAX_HISTORY = 50;
+
+// One undoable step: the inverses of the mutations it made, applied last to first
+export interface HistoryEntry {
+  id: string;
+  description: string;
+  mutations: Mutation[];
+}
+
+export interface WriteOptions {
+  // Undo step, from batchMutations, that the change joins instead of becoming its own step
+  group?: HistoryEntry;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function describeMutation({ type, entity }: Mutation, row: Record<string, unknown> | undefined) {
+  const label = row?.name ?? row?.message ?? row?.content;
+  const name = typeof label === 'string' ? ` "${label.length > 40 ? `${label.slice(0, 40)}…` : label}"` : '';
+  return `${capitalize(PAST_TENSE[type])} ${entity}${name}`;
+}
+
+// The row as it is before a mutation, so the change can be undone. Rows the
+// store doesn't hold, e.g. tasks found by a chat command, are read from the server.
+async function rowBefore(get: StoreGet, { type, entity, data }: Mutation) {
+  if (type === 'create') return undefined;
+  const local = (get()[ENTITY_COLLECTIONS[entity]] as CachedRow[]).find((item) => item.id === data.id);
+  if (local || !navigator.onLine || isTempId(data.id)) return local;
+
+  const { data: row, error } = await supabase.from(ENTITY_COLLECTIONS[entity]).select().eq('id', data.id).maybeSingle();
+  if (error) console.error(`Error reading ${entity} before change:`, error);
+  return (row as CachedRow | null) ?? undefined;
+}
+
+function inverseOf({ type, entity, data }: Mutation, before: CachedRow | undefined, row: { id: string } | undefined): Mutation | null {
+  switch (type) {
+    case 'create':
+      return row ? { type: 'delete', entity, data: { id: row.id } } : null;
+    case 'update': {
+      if (!before) return null;
+      const held: Record<string, unknown> = { ...before };
+      const fields = Object.keys(data).filter((field) => field !== 'id');
+      return { type: 'update', entity, data: { id: data.id, ...Object.fromEntries(fields.map((field) => [field, held[field]])) } };
+    }
+    case 'archive':
+      return before ? { type: 'unarchive', entity, data: before } : null;
+    case 'unarchive':
+      return { type: 'archive', entity, data: { id: data.id } };
+    case 'trash':
+      return before ? { type: 'restore', entity, data: { ...before, deleted_at: new Date().toISOString() } } : null;
+    case 'restore':
+      return { type: 'trash', entity, data: { id: data.id } };
+    case 'delete':
+      // Rows removed along with it, like a task's notes, aren't brought back
+      return before ? { type: 'create', entity, data: before } : null;
+  }
+}
+
+function pushHistory(set: StoreSet, entry: HistoryEntry) {
+  set((state) => ({ undoStack: [...state.undoStack, entry].slice(-MAX_HISTORY), redoStack: [] }));
+}
+
+function recordUndo(
+  set: StoreSet,
+  mutation: Mutation,
+  before: CachedRow | undefined,
+  row: { id: string } | undefined,
+  { group }: WriteOptions
+) {
+  const inverse = inverseOf(mutation, before, row);
+  if (!inverse) return;
+  if (group) {
+    group.mutations.push(inverse);
+    return;
+  }
+  pushHistory(set, {
+    id: crypto.randomUUID(),
+    description: describeMutation(mutation, { ...before, ...mutation.data, ...row }),
+    mutations: [inverse]
+  });
+}
+
+// Applies the top entry of one stack and records its inverse on the other
+async function replayHistory(set: StoreSet, get: StoreGet, from: 'undoStack' | 'redoStack') {
+  const to = from === 'undoStack' ? 'redoStack' : 'undoStack';
+  const entry = get()[from][get()[from].length - 1];
+  if (!entry) return null;
+
+  set((state) => ({ [from]: state[from].slice(0, -1) }));
+  const inverse: HistoryEntry = { id: crypto.randomUUID(), description: entry.description, mutations: [] };
+  // Keeps going past a failure so as much of the step as possible is applied
+  let firstError: string | undefined;
+  try {
+    for (const mutation of [...entry.mutations].reverse()) {
+      const { error } = await mutate(set, get, mutation, { group: inverse });
+      firstError = firstError ?? error;
+    }
+  } finally {
+    if (inverse.mutations.length > 0) {
+      set((state) => ({ [to]: [...state[to], inverse].slice(-MAX_HISTORY) }));
+    }
+  }
+  return { description: entry.description, error: firstError };
+}
+
+// Viewers can read the selected project but not change it or anything in it, nor
+// restore an archived project. Creating a project elsewhere, or changing a
+// different one, is still fine.
+function isReadOnly(get: StoreGet, { type, entity, data }: Mutation) {
+  const { projectRole, selectedProject, tasks, archivedProjectRoles } = get();
+  if (entity === 'project' && archivedProjectRoles[data.id] === 'viewer') return true;
+  if (projectRole !== 'viewer') return false;
+  if (entity === 'project') return type !== 'create' && data.id === selectedProject?.id;
+  // "My tasks" can list tasks from other projects
+  if (entity === 'task') {
+    const projectId = data.project_id ?? tasks.find((task) => task.id === data.id)?.project_id;
+    return projectId === selectedProject?.id;
+  }
+  return true;
+}
+
+// What a write did: the row it wrote, if any, or why it was refused or failed.
+// Failures are also put in lastError for the error banner.
+export interface WriteResult<T = { id: string }> {
+  row?: T;
+  error?: string;
+}
+
+/**
+ * Single path for every create/update/archive/delete in the store. Offline,
+ * the mutation is queued for replay; online, it is written with retries and
+ * applied to local state. Resolves to the affected row when one was written.
+ */
+async function mutate(set: StoreSet, get: StoreGet, mutation: Mutation, options: WriteOptions = {}): Promise<WriteResult> {
+  if (isReadOnly(get, mutation)) {
+    const appError: AppError = {
+      type: 'validation',
+      message: 'You have view-only access to this project.',
+      details: `The ${mutation.entity} was not ${PAST_TENSE[mutation.type]}.`,
+      resolution: 'Ask the project owner for edit access.',
+      retryable: false
+    };
+    set({ error: appError.message, lastError: appError });
+    return { error: appError.message };
+  }
+
+  try {
+    set({ loading: true, error: null });
+
+    const before = await rowBefore(get, mutation);
+
+    // Changes to unsynced entities wait behind their create in the queue, even online
+    if (!navigator.onLine || referencesTempId(mutation.data)) {
+      const queued = applyOptimistic(set, get, mutation);
+      offlineQueue.addOperation(queued);
+      recordUndo(set, mutation, before, queued.tempId ? { id: queued.tempId } : undefined, options);
+
+      if (!navigator.onLine) {
+        set({ 
+          lastError: {
+            type: 'network',
+            message: 'You are currently offline.',
+            details: `The ${mutation.entity} will be ${PAST_TENSE[mutation.type]} when you reconnect.`,
+            resolution: 'Your changes have been saved and will sync automatically.',
+            retryable: false
+          }
+        });
+      }
+      // Callers get the optimistic row so they can keep working with it
+      return {
+        row: queued.tempId
+          ? (get()[ENTITY_COLLECTIONS[queued.entity]] as { id: string }[]).find((item) => item.id === queued.tempId)
+          : undefined
+      };
+    }
+
+    const row = await withRetry(() => runMutation(mutation));
+    applyMutation(set, mutation, row);
+    recordUndo(set, mutation, before, row ?? undefined, options);
+    return { row: row ?? undefined };
+  } catch (error) {
+    const appError = parseError(error);
+    set({ 
+      error: appError.message,
+      lastError: appError
+    });
+    console.error(`Error running ${mutation.type} ${mutation.entity}:`, error);
+    return { error: appError.message };
+  } finally {
+    set({ loading: false });
+  }
+}
+
+// For actions whose callers only need to know whether they worked; failures go to lastError
+async function attempt(set: StoreSet, description: string, action: () => Promise<void>) {
+  try {
+    await action();
+    return true;
+  } catch (error) {
+    const appError = parseError(error);
+    set({ error: appError.message, lastError: appError });
+    console.error(`Error ${description}:`, error);
+    return false;
+  }
+}
+
+// Nothing of the previous user's may linger in memory, the local cache or the offline queue
+async function resetForUser() {
+  subscribeToProject(null);
+  offlineQueue.clearQueue();
+  unsavedMessages.clear();
+  useStore.setState({
+    projects: [],
+    archivedProjects: [],
+    archivedProjectRoles: {},
+    tasks: [],
+    notes: [],
+    resources: [],
+    reminders: [],
+    messages: [],
+    messagesProjectId: null,
+    hasMoreMessages: false,
+    unsavedMessageIds: [],
+    selectedProject: null,
+    remoteChanges: {},
+    workspaces: [],
+    selectedWorkspaceId: null,
+    workspaceMembers: [],
+    projectShares: [],
+    projectRole: null,
+    projectMembers: [],
+    taskScope: 'project',
+    activity: [],
+    hasMoreActivity: false,
+    trash: [],
+    undoStack: [],
+    redoStack: [],
+    currentPage: 1,
+    totalPages: 1
+  });
+  localStorage.removeItem(SELECTED_WORKSPACE_KEY);
+  await localCache.clear();
+  await useStore.getState().fetchWorkspaces();
+  await useStore.getState().fetchProjects();
+  await refreshLocalCache();
+}
+
+// Projects from before accounts existed go to the first email account to sign in
+async function claimUnownedProjects() {
+  const { data: claimed, error } = await supabase.rpc('claim_unowned_projects');
+  if (error) throw error;
+  if (claimed) await useStore.getState().fetchProjects();
+}
 
 interface AppState {
+  // Active projects; archived ones are only loaded into archivedProjects
   projects: Project[];
+  archivedProjects: Project[];
+  // The user's role on each archived project, which the workspace role doesn't tell
+  // for projects shared directly; missing when it couldn't be looked up
+  archivedProjectRoles: Record<string, WorkspaceRole | null>;
   tasks: Task[];
   notes: Note[];
   resources: Resource[];
   reminders: Reminder[];
   messages: Message[];
+  // Project whose chat thread is loaded; null is the general thread
+  messagesProjectId: string | null;
+  hasMoreMessages: boolean;
+  // Messages that couldn't be saved yet; they are retried when the connection comes back
+  unsavedMessageIds: string[];
   selectedProject: Project | null;
   loading: boolean;
   error: string | null;
@@ -21,38 +820,122 @@ interface AppState {
   totalPages: number;
   lastError: AppError | null;
   isOffline: boolean;
+  // Offline operations that could not be replayed
+  failedOperations: FailedOperation[];
+  // Rows changed by another session, keyed by id, with when the change arrived
+  remoteChanges: Record<string, string>;
+  // Anonymous until the user creates an account or signs in
+  user: User | null;
+  workspaces: Workspace[];
+  // null shows personal projects and ones shared directly with the user
+  selectedWorkspaceId: string | null;
+  workspaceMembers: WorkspaceMember[];
+  projectShares: ProjectShare[];
+  // The user's role on the selected project; viewers get read-only views
+  projectRole: WorkspaceRole | null;
+  projectMembers: ProjectMember[];
+  // 'mine' lists tasks assigned to the user across all projects
+  taskScope: 'project' | 'mine';
+  // The selected project's activity log, newest first
+  activity: ActivityLog[];
+  hasMoreActivity: boolean;
+  // Deleted tasks, notes, resources and reminders, most recently deleted first
+  trash: TrashItem[];
+  // Most recent step last
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
   
   fetchProjects: (page?: number) => Promise<void>;
   fetchTasks: (projectId?: string, page?: number) => Promise<void>;
   fetchNotes: (projectId?: string, taskId?: string) => Promise<void>;
   fetchResources: (projectId?: string, taskId?: string) => Promise<void>;
   fetchReminders: () => Promise<void>;
+  findTasks: (filters: TaskFilters) => Promise<{ tasks: Task[]; error?: string }>;
+  fetchMessages: (projectId: string | null) => Promise<Message[]>;
+  fetchOlderMessages: () => Promise<void>;
   
-  createProject: (project: Omit<Project, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
-  createTask: (task: Omit<Task, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
-  createNote: (note: Omit<Note, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
-  createResource: (resource: Omit<Resource, 'id' | 'created_at'>) => Promise<void>;
-  createReminder: (reminder: Omit<Reminder, 'id'>) => Promise<void>;
-  updateProject: (id: string, updates: Partial<Project>) => Promise<void>;
-  updateTask: (id: string, updates: Partial<Task>) => Promise<void>;
-  archiveProject: (id: string) => Promise<void>;
-  deleteTask: (id: string) => Promise<void>;
-  deleteResource: (id: string) => Promise<void>;
-  addMessage: (message: Omit<Message, 'id'>) => void;
+  // New projects go into the selected workspace
+  createProject: (
+    project: Omit<Project, 'id' | 'created_at' | 'updated_at' | 'owner_id' | 'workspace_id' | 'start_date' | 'target_date'> &
+      Partial<Pick<Project, 'start_date' | 'target_date'>>
+  ) => Promise<WriteResult<Project>>;
+  createTask: (
+    task: Omit<Task, 'id' | 'created_at' | 'updated_at' | 'assignee_ids' | 'deleted_at'> & Partial<Pick<Task, 'assignee_ids'>>
+  ) => Promise<WriteResult>;
+  createNote: (note: Omit<Note, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>) => Promise<WriteResult>;
+  createResource: (resource: Omit<Resource, 'id' | 'created_at' | 'deleted_at'>) => Promise<WriteResult>;
+  createReminder: (reminder: Omit<Reminder, 'id' | 'deleted_at'>) => Promise<WriteResult>;
+  updateProject: (id: string, updates: Partial<Project>) => Promise<WriteResult>;
+  updateTask: (id: string, updates: Partial<Task>, options?: WriteOptions) => Promise<WriteResult>;
+  archiveProject: (id: string) => Promise<WriteResult>;
+  unarchiveProject: (id: string) => Promise<WriteResult>;
+  // Archived projects in the selected workspace, most recently archived first
+  fetchArchivedProjects: () => Promise<void>;
+  // Deleting moves tasks, notes, resources and reminders to the trash
+  deleteTask: (id: string, options?: WriteOptions) => Promise<WriteResult>;
+  deleteNote: (id: string) => Promise<WriteResult>;
+  deleteResource: (id: string) => Promise<WriteResult>;
+  deleteReminder: (id: string) => Promise<WriteResult>;
+  fetchTrash: () => Promise<void>;
+  restoreFromTrash: (item: TrashItem) => Promise<WriteResult>;
+  // Removes the row for good, along with anything that cascades from it
+  deleteForever: (item: TrashItem) => Promise<WriteResult>;
+  addMessage: (message: Omit<Message, 'id'>) => string;
+  updateMessage: (id: string, updates: Partial<Omit<Message, 'id'>>) => void;
   setSelectedProject: (project: Project | null) => Promise<void>;
   setError: (error: string | null) => void;
   setPage: (page: number) => void;
   processOfflineOperation: (operation: QueuedOperation) => Promise<void>;
+  retryFailedOperation: (id: string) => void;
+  // Picks, per conflicting field, whether the offline edit or the server value wins
+  resolveConflict: (id: string, choices: Record<string, 'mine' | 'theirs'>) => void;
+  discardFailedOperation: (id: string) => void;
+  dismissRemoteChange: (id: string) => void;
+  // Auth actions resolve to false after reporting the failure through lastError
+  signIn: (email: string, password: string) => Promise<boolean>;
+  sendMagicLink: (email: string) => Promise<boolean>;
+  createAccount: (email: string) => Promise<boolean>;
+  setPassword: (password: string) => Promise<boolean>;
+  signOut: () => Promise<void>;
+  fetchWorkspaces: () => Promise<void>;
+  createWorkspace: (name: string) => Promise<Workspace | null>;
+  setSelectedWorkspace: (workspaceId: string | null) => Promise<void>;
+  fetchWorkspaceMembers: (workspaceId: string) => Promise<void>;
+  addWorkspaceMember: (email: string, role: WorkspaceRole) => Promise<boolean>;
+  removeWorkspaceMember: (userId: string) => Promise<boolean>;
+  fetchProjectShares: (projectId: string) => Promise<void>;
+  shareProject: (email: string, role: ProjectShare['role']) => Promise<boolean>;
+  unshareProject: (userId: string) => Promise<boolean>;
+  // Also kept in projectMembers when it's the selected project
+  fetchProjectMembers: (projectId: string) => Promise<ProjectMember[]>;
+  setTaskScope: (scope: 'project' | 'mine') => void;
+  fetchActivity: (projectId: string) => Promise<void>;
+  fetchOlderActivity: () => Promise<void>;
+  // Task feeds are loaded on demand rather than kept in the store
+  fetchTaskActivity: (taskId: string) => Promise<ActivityLog[]>;
+  // Resolve to the step's description and the first error applying it, or null when there was nothing to do
+  undo: () => Promise<{ description: string; error?: string } | null>;
+  redo: () => Promise<{ description: string; error?: string } | null>;
+  // Groups the changes action makes with the given group into a single undo step, e.g. for bulk deletes
+  batchMutations: <T>(description: string, action: (group: HistoryEntry) => Promise<T>) => Promise<T>;
   clearError: () => void;
 }
 
+type StoreSet = StoreApi<AppState>['setState'];
+type StoreGet = StoreApi<AppState>['getState'];
+
 export const useStore = create<AppState>((set, get) => ({
   projects: [],
+  archivedProjects: [],
+  archivedProjectRoles: {},
   tasks: [],
   notes: [],
   resources: [],
   reminders: [],
   messages: [],
+  messagesProjectId: null,
+  hasMoreMessages: false,
+  unsavedMessageIds: [],
   selectedProject: null,
   loading: false,
   error: null,
@@ -60,6 +943,21 @@ export const useStore = create<AppState>((set, get) => ({
   totalPages: 1,
   lastError: null,
   isOffline: !navigator.onLine,
+  failedOperations: offlineQueue.getFailedOperations(),
+  remoteChanges: {},
+  user: null,
+  workspaces: [],
+  selectedWorkspaceId: localStorage.getItem(SELECTED_WORKSPACE_KEY),
+  workspaceMembers: [],
+  projectShares: [],
+  projectRole: null,
+  projectMembers: [],
+  taskScope: 'project',
+  activity: [],
+  hasMoreActivity: false,
+  trash: [],
+  undoStack: [],
+  redoStack: [],
 
   fetchProjects: async (page = 1) => {
     try {
@@ -67,16 +965,25 @@ export const useStore = create<AppState>((set, get) => ({
 
       // Ensure we have an authenticated session
       await initializeAuth();
-      
-      const { count } = await supabase
-        .from('projects')
-        .select('*', { count: 'exact', head: true });
 
-      const { data: projects, error } = await supabase
+      const filter = workspaceFilter(get().selectedWorkspaceId, get().workspaces);
+      let countQuery = supabase
+        .from('projects')
+        .select('*', { count: 'exact', head: true })
+        .eq('archived', false);
+      let query = supabase
         .from('projects')
         .select('*')
+        .eq('archived', false)
         .order('created_at', { ascending: false })
         .range((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE - 1);
+      if (filter) {
+        countQuery = countQuery.or(filter);
+        query = query.or(filter);
+      }
+
+      const { count } = await countQuery;
+      const { data: projects, error } = await query;
 
       if (error) throw error;
 
@@ -87,6 +994,16 @@ export const useStore = create<AppState>((set, get) => ({
         error: null
       });
     } catch (error) {
+      const { selectedWorkspaceId, workspaces } = get();
+      const servedFromCache = await readFromCache<Project>(set, 'projects', error, (rows) => {
+        const visible = rows.filter(
+          (project) => !project.archived && inWorkspace(project, selectedWorkspaceId, workspaces)
+        );
+        const { items, totalPages, currentPage } = paginate(visible.sort(newestFirst), page);
+        return { projects: items, totalPages, currentPage };
+      });
+      if (servedFromCache) return;
+
       const appError = parseError(error);
       set({ 
         error: appError.message,
@@ -105,9 +1022,13 @@ export const useStore = create<AppState>((set, get) => ({
       
       let query = supabase
         .from('tasks')
-        .select('*', { count: 'exact' });
+        .select('*', { count: 'exact' })
+        .is('deleted_at', null);
 
-      if (projectId) {
+      const { taskScope, user } = get();
+      if (taskScope === 'mine') {
+        query = query.contains('assignee_ids', [user?.id]);
+      } else if (projectId) {
         query = query.eq('project_id', projectId);
       }
 
@@ -127,6 +1048,21 @@ export const useStore = create<AppState>((set, get) => ({
         currentPage: safePage
       });
     } catch (error) {
+      const { taskScope, user } = get();
+      const servedFromCache = await readFromCache<Task>(set, 'tasks', error, (rows) => {
+        const scoped = rows
+          .filter((task) => !task.deleted_at)
+          .filter((task) =>
+            taskScope === 'mine'
+              ? taskAssignees(task).includes(user?.id ?? '')
+              : !projectId || task.project_id === projectId
+          )
+          .sort(newestFirst);
+        const { items, totalPages, currentPage } = paginate(scoped, page);
+        return { tasks: items, totalPages, currentPage };
+      });
+      if (servedFromCache) return;
+
       const appError = parseError(error);
       set({ 
         error: appError.message,
@@ -144,6 +1080,7 @@ export const useStore = create<AppState>((set, get) => ({
       let query = supabase
         .from('notes')
         .select('*')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (projectId) {
@@ -157,6 +1094,14 @@ export const useStore = create<AppState>((set, get) => ({
       if (error) throw error;
       set({ notes: notes || [] });
     } catch (error) {
+      const servedFromCache = await readFromCache<Note>(set, 'notes', error, (rows) => ({
+        notes: rows
+          .filter((row) => !row.deleted_at)
+          .filter((row) => (!projectId || row.project_id === projectId) && (!taskId || row.task_id === taskId))
+          .sort(newestFirst)
+      }));
+      if (servedFromCache) return;
+
       const appError = parseError(error);
       set({ 
         error: appError.message,
@@ -174,6 +1119,7 @@ export const useStore = create<AppState>((set, get) => ({
       let query = supabase
         .from('resources')
         .select('*')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (projectId) {
@@ -187,6 +1133,14 @@ export const useStore = create<AppState>((set, get) => ({
       if (error) throw error;
       set({ resources: resources || [] });
     } catch (error) {
+      const servedFromCache = await readFromCache<Resource>(set, 'resources', error, (rows) => ({
+        resources: rows
+          .filter((row) => !row.deleted_at)
+          .filter((row) => (!projectId || row.project_id === projectId) && (!taskId || row.task_id === taskId))
+          .sort(newestFirst)
+      }));
+      if (servedFromCache) return;
+
       const appError = parseError(error);
       set({ 
         error: appError.message,
@@ -204,11 +1158,19 @@ export const useStore = create<AppState>((set, get) => ({
       const { data: reminders, error } = await supabase
         .from('reminders')
         .select('*')
+        .is('deleted_at', null)
         .order('reminder_date', { ascending: true });
 
       if (error) throw error;
       set({ reminders: reminders || [] });
     } catch (error) {
+      const servedFromCache = await readFromCache<Reminder>(set, 'reminders', error, (rows) => ({
+        reminders: rows
+          .filter((row) => !row.deleted_at)
+          .sort((a, b) => a.reminder_date.localeCompare(b.reminder_date))
+      }));
+      if (servedFromCache) return;
+
       const appError = parseError(error);
       set({ 
         error: appError.message,
@@ -220,310 +1182,268 @@ export const useStore = create<AppState>((set, get) => ({
     }
   },
 
-  createProject: async (project) => {
+  findTasks: async (filters) => {
     try {
-      set({ loading: true, error: null });
+      let query = supabase
+        .from('tasks')
+        .select('*')
+        .is('deleted_at', null);
 
-      // Ensure we have an anonymous session
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        await supabase.auth.signInAnonymously();
+      if (filters.projectId) {
+        query = query.eq('project_id', filters.projectId);
+      }
+      if (filters.name) {
+        query = query.ilike('name', `%${filters.name}%`);
+      }
+      if (filters.search) {
+        // Strip characters that carry meaning in PostgREST's or() syntax
+        const term = filters.search.replace(/[,()%*]/g, ' ').trim();
+        query = query.or(`name.ilike.%${term}%,description.ilike.%${term}%`);
+      }
+      if (filters.priority) {
+        query = query.eq('priority', filters.priority);
+      }
+      if (filters.phase) {
+        query = query.eq('phase', filters.phase);
+      }
+      if (filters.completed !== undefined) {
+        query = query.eq('completed', filters.completed);
+      }
+      if (filters.assigneeId) {
+        query = query.contains('assignee_ids', [filters.assigneeId]);
+      }
+      if (filters.unassigned) {
+        query = query.eq('assignee_ids', '{}');
+      }
+      if (filters.overdue) {
+        query = query
+          .lt('due_date', format(new Date(), 'yyyy-MM-dd'))
+          .eq('completed', false);
+      }
+      if (filters.dueAfter) {
+        query = query.gte('due_date', filters.dueAfter);
+      }
+      if (filters.dueBefore) {
+        query = query.lte('due_date', filters.dueBefore);
       }
 
-      const { data, error } = await supabase
-        .from('projects')
-        .insert([project])
-        .select()
-        .single();
+      const sortBy = filters.sortBy ?? 'created_at';
+      query = query.order(sortBy, {
+        ascending: (filters.sortDirection ?? (sortBy === 'created_at' ? 'desc' : 'asc')) === 'asc',
+        nullsFirst: false
+      });
 
+      if (filters.limit) {
+        query = query.limit(filters.limit);
+      }
+
+      const { data: tasks, error } = await query;
       if (error) throw error;
-      set((state) => ({ projects: [data, ...state.projects] }));
+      return { tasks: tasks || [] };
     } catch (error) {
       const appError = parseError(error);
       set({ 
         error: appError.message,
         lastError: appError
       });
-      console.error('Error creating project:', error);
-    } finally {
-      set({ loading: false });
+      console.error('Error finding tasks:', error);
+      return { tasks: [], error: appError.message };
     }
   },
 
-  createTask: async (task) => {
-    try {
-      set({ loading: true, error: null });
-      
-      if (!navigator.onLine) {
-        offlineQueue.addOperation({
-          type: 'create',
-          entity: 'task',
-          data: task
-        });
-        
-        set({ 
-          lastError: {
-            type: 'network',
-            message: 'You are currently offline.',
-            details: 'The task will be created when you reconnect.',
-            resolution: 'Your changes have been saved and will sync automatically.',
-            retryable: false
-          }
-        });
-        return;
-      }
+  createProject: (project) =>
+    mutate(set, get, {
+      type: 'create',
+      entity: 'project',
+      data: { ...project, workspace_id: get().selectedWorkspaceId }
+    }) as Promise<WriteResult<Project>>,
 
-      const result = await withRetry(async () => {
-        const { data, error } = await supabase
-          .from('tasks')
-          .insert([task])
-          .select()
-          .single();
+  createTask: (task) => mutate(set, get, { type: 'create', entity: 'task', data: { assignee_ids: [], ...task } }),
 
-        if (error) throw error;
-        return data;
-      });
+  createNote: (note) => mutate(set, get, { type: 'create', entity: 'note', data: note }),
 
-      set((state) => ({ tasks: [result, ...state.tasks] }));
-    } catch (error) {
-      const appError = parseError(error);
-      set({ 
-        error: appError.message,
-        lastError: appError
-      });
-      console.error('Error creating task:', error);
-    } finally {
-      set({ loading: false });
+  createResource: (resource) => mutate(set, get, { type: 'create', entity: 'resource', data: resource }),
+
+  createReminder: (reminder) => mutate(set, get, { type: 'create', entity: 'reminder', data: reminder }),
+
+  updateProject: (id, updates) => mutate(set, get, { type: 'update', entity: 'project', data: { ...updates, id } }),
+
+  updateTask: (id, updates, options) =>
+    mutate(set, get, { type: 'update', entity: 'task', data: { ...updates, id } }, options),
+
+  archiveProject: async (id) => {
+    const result = await mutate(set, get, { type: 'archive', entity: 'project', data: { id } });
+    const { row } = result;
+    if (row) {
+      set((state) => ({ archivedProjects: [row as Project, ...state.archivedProjects.filter((p) => p.id !== id)] }));
     }
+    return result;
   },
 
-  createNote: async (note) => {
-    try {
-      set({ loading: true, error: null });
-      const { data, error } = await supabase
-        .from('notes')
-        .insert([note])
-        .select()
-        .single();
+  unarchiveProject: async (id) => {
+    const project = get().archivedProjects.find((p) => p.id === id);
+    // Restores carry the whole row so the project can be listed again right away, even offline
+    const row = project ?? (await rowBefore(get, { type: 'unarchive', entity: 'project', data: { id } }));
+    if (!row) return { error: 'That project no longer exists.' };
 
-      if (error) throw error;
-      set((state) => ({ notes: [data, ...state.notes] }));
-    } catch (error) {
-      const appError = parseError(error);
-      set({ 
-        error: appError.message,
-        lastError: appError
-      });
-      console.error('Error creating note:', error);
-    } finally {
-      set({ loading: false });
+    const result = await mutate(set, get, { type: 'unarchive', entity: 'project', data: row });
+    if (!result.error) {
+      set((state) => ({ archivedProjects: state.archivedProjects.filter((p) => p.id !== id) }));
     }
+    return result;
   },
 
-  createResource: async (resource) => {
+  fetchArchivedProjects: async () => {
+    const { selectedWorkspaceId, workspaces } = get();
     try {
-      set({ loading: true, error: null });
-      const { data, error } = await supabase
-        .from('resources')
-        .insert([resource])
-        .select()
-        .single();
+      const filter = workspaceFilter(selectedWorkspaceId, workspaces);
+      let query = supabase
+        .from('projects')
+        .select('*')
+        .eq('archived', true)
+        .order('updated_at', { ascending: false });
+      if (filter) {
+        query = query.or(filter);
+      }
 
+      const { data, error } = await query;
       if (error) throw error;
-      set((state) => ({ resources: [data, ...state.resources] }));
+      const archived: Project[] = data || [];
+      const roles = await Promise.all(archived.map((project) => fetchProjectRole(project.id)));
+      set({
+        archivedProjects: archived,
+        archivedProjectRoles: Object.fromEntries(archived.map((project, i) => [project.id, roles[i]]))
+      });
     } catch (error) {
+      // Archived rows stay in the cache, so they can be browsed offline too
+      if (!navigator.onLine) {
+        const rows = await localCache.getAll<Project>('projects');
+        set({
+          archivedProjects: rows
+            .filter((project) => project.archived && inWorkspace(project, selectedWorkspaceId, workspaces))
+            .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        });
+        return;
+      }
       const appError = parseError(error);
-      set({ 
-        error: appError.message,
-        lastError: appError
-      });
-      console.error('Error creating resource:', error);
-    } finally {
-      set({ loading: false });
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching archived projects:', error);
     }
   },
 
-  createReminder: async (reminder) => {
-    try {
-      set({ loading: true, error: null });
-      const { data, error } = await supabase
-        .from('reminders')
-        .insert([reminder])
-        .select()
-        .single();
+  deleteTask: (id, options) => mutate(set, get, { type: 'trash', entity: 'task', data: { id } }, options),
 
-      if (error) throw error;
-      set((state) => ({ reminders: [data, ...state.reminders] }));
-    } catch (error) {
-      const appError = parseError(error);
-      set({ 
-        error: appError.message,
-        lastError: appError
-      });
-      console.error('Error creating reminder:', error);
-    } finally {
-      set({ loading: false });
-    }
-  },
+  deleteNote: (id) => mutate(set, get, { type: 'trash', entity: 'note', data: { id } }),
 
-  updateProject: async (id, updates) => {
-    try {
-      set({ loading: true, error: null });
-      const { data, error } = await supabase
-        .from('projects')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
+  deleteResource: (id) => mutate(set, get, { type: 'trash', entity: 'resource', data: { id } }),
 
-      if (error) throw error;
-      set((state) => ({
-        projects: state.projects.map((p) => (p.id === id ? data : p)),
-      }));
-    } catch (error) {
-      const appError = parseError(error);
-      set({ 
-        error: appError.message,
-        lastError: appError
-      });
-      console.error('Error updating project:', error);
-    } finally {
-      set({ loading: false });
-    }
-  },
+  deleteReminder: (id) => mutate(set, get, { type: 'trash', entity: 'reminder', data: { id } }),
 
-  updateTask: async (id, updates) => {
+  fetchTrash: async () => {
     try {
-      set({ loading: true, error: null });
-
-      if (!navigator.onLine) {
-        offlineQueue.addOperation({
-          type: 'update',
-          entity: 'task',
-          data: { id, ...updates }
-        });
-        
-        set({ 
-          lastError: {
-            type: 'network',
-            message: 'You are currently offline.',
-            details: 'The task will be updated when you reconnect.',
-            resolution: 'Your changes have been saved and will sync automatically.',
-            retryable: false
-          }
-        });
-        return;
-      }
-
-      const result = await withRetry(async () => {
+      const groups = await Promise.all(TRASH_ENTITIES.map(async (entity) => {
         const { data, error } = await supabase
-          .from('tasks')
-          .update(updates)
-          .eq('id', id)
-          .select()
-          .single();
-
+          .from(ENTITY_COLLECTIONS[entity])
+          .select('*')
+          .not('deleted_at', 'is', null);
         if (error) throw error;
-        return data;
-      });
-
-      set((state) => ({
-        tasks: state.tasks.map((t) => (t.id === id ? result : t)),
+        return (data || []).map((row) => ({ entity, row }) as TrashItem);
       }));
+      set({ trash: groups.flat().sort(deletedFirst) });
     } catch (error) {
+      // Offline, show what the cache knows was deleted
+      if (!navigator.onLine) {
+        const groups = await Promise.all(TRASH_ENTITIES.map(async (entity) =>
+          (await localCache.getAll<CachedRow & { deleted_at?: string | null }>(ENTITY_COLLECTIONS[entity]))
+            .filter((row) => row.deleted_at)
+            .map((row) => ({ entity, row }) as TrashItem)
+        ));
+        set({ trash: groups.flat().sort(deletedFirst) });
+        return;
+      }
       const appError = parseError(error);
-      set({ 
-        error: appError.message,
-        lastError: appError
-      });
-      console.error('Error updating task:', error);
-    } finally {
-      set({ loading: false });
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching trash:', error);
     }
   },
 
-  archiveProject: async (id) => {
-    try {
-      set({ loading: true, error: null });
-      const { error } = await supabase
-        .from('projects')
-        .update({ archived: true })
-        .eq('id', id);
+  restoreFromTrash: async ({ entity, row }) => {
+    const result = await mutate(set, get, { type: 'restore', entity, data: row });
+    if (!result.error) {
+      set((state) => ({ trash: state.trash.filter((item) => item.row.id !== row.id) }));
+    }
+    return result;
+  },
 
-      if (error) throw error;
-      set((state) => ({
-        projects: state.projects.filter((p) => p.id !== id),
-      }));
-    } catch (error) {
-      const appError = parseError(error);
-      set({ 
-        error: appError.message,
-        lastError: appError
-      });
-      console.error('Error archiving project:', error);
-    } finally {
-      set({ loading: false });
+  deleteForever: async ({ entity, row }) => {
+    const result = await mutate(set, get, { type: 'delete', entity, data: { id: row.id } });
+    if (!result.error) {
+      set((state) => ({ trash: state.trash.filter((item) => item.row.id !== row.id) }));
     }
+    return result;
   },
 
-  deleteTask: async (id) => {
+  fetchMessages: async (projectId) => {
+    // Clear right away so messages added while loading land in the right thread
+    set({ messages: [], messagesProjectId: projectId, hasMoreMessages: false });
+
     try {
-      set({ loading: true, error: null });
+      let query = supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .order('timestamp', { ascending: false })
+        .limit(MESSAGES_PER_PAGE);
 
-      if (!navigator.onLine) {
-        offlineQueue.addOperation({
-          type: 'delete',
-          entity: 'task',
-          data: { id }
-        });
-        
-        set({ 
-          lastError: {
-            type: 'network',
-            message: 'You are currently offline.',
-            details: 'The task will be deleted when you reconnect.',
-            resolution: 'Your changes have been saved and will sync automatically.',
-            retryable: false
-          }
-        });
-        return;
-      }
+      query = projectId ? query.eq('project_id', projectId) : query.is('project_id', null);
 
-      await withRetry(async () => {
-        const { error } = await supabase
-          .from('tasks')
-          .delete()
-          .eq('id', id);
+      const { data, error } = await query;
 
-        if (error) throw error;
-      });
+      if (error) throw error;
 
+      const history = ((data || []) as Message[]).reverse();
+      if (get().messagesProjectId !== projectId) return history;
+
+      const loadedIds = new Set(history.map(message => message.id));
       set((state) => ({
-        tasks: state.tasks.filter((t) => t.id !== id),
+        messages: [...history, ...state.messages.filter(message => !loadedIds.has(message.id))],
+        hasMoreMessages: history.length === MESSAGES_PER_PAGE
       }));
+      return history;
     } catch (error) {
       const appError = parseError(error);
       set({ 
         error: appError.message,
         lastError: appError
       });
-      console.error('Error deleting task:', error);
-    } finally {
-      set({ loading: false });
+      console.error('Error fetching messages:', error);
+      return [];
     }
   },
 
-  deleteResource: async (id) => {
+  fetchOlderMessages: async () => {
+    const { messages, messagesProjectId } = get();
+    const oldest = messages[0];
+    if (!oldest) return;
+
     try {
-      set({ loading: true, error: null });
-      const { error } = await supabase
-        .from('resources')
-        .delete()
-        .eq('id', id);
+      let query = supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .lt('timestamp', oldest.timestamp)
+        .order('timestamp', { ascending: false })
+        .limit(MESSAGES_PER_PAGE);
+
+      query = messagesProjectId ? query.eq('project_id', messagesProjectId) : query.is('project_id', null);
+
+      const { data, error } = await query;
 
       if (error) throw error;
+      if (get().messagesProjectId !== messagesProjectId) return;
+
+      const older = ((data || []) as Message[]).reverse();
       set((state) => ({
-        resources: state.resources.filter((r) => r.id !== id),
+        messages: [...older, ...state.messages],
+        hasMoreMessages: older.length === MESSAGES_PER_PAGE
       }));
     } catch (error) {
       const appError = parseError(error);
@@ -531,9 +1451,7 @@ export const useStore = create<AppState>((set, get) => ({
         error: appError.message,
         lastError: appError
       });
-      console.error('Error deleting resource:', error);
-    } finally {
-      set({ loading: false });
+      console.error('Error fetching older messages:', error);
     }
   },
 
@@ -545,6 +1463,22 @@ export const useStore = create<AppState>((set, get) => ({
     set((state) => ({
       messages: [...state.messages, newMessage],
     }));
+
+    saveMessage(newMessage, get().messagesProjectId);
+    return newMessage.id;
+  },
+
+  updateMessage: (id, updates) => {
+    set((state) => ({
+      messages: state.messages.map(message =>
+        message.id === id ? { ...message, ...updates } : message
+      ),
+    }));
+
+    const message = get().messages.find(m => m.id === id);
+    if (message) {
+      saveMessage(message, get().messagesProjectId);
+    }
   },
 
   setSelectedProject: async (project) => {
@@ -557,11 +1491,22 @@ export const useStore = create<AppState>((set, get) => ({
         tasks: [],
         notes: [],
         resources: [],
+        remoteChanges: {},
+        projectShares: [],
+        projectRole: null,
+        projectMembers: [],
+        activity: [],
+        hasMoreActivity: false,
         currentPage: 1
       });
+      subscribeToProject(project?.id ?? null);
 
       // If no project selected, just return
       if (!project) {
+        // "My tasks" doesn't depend on a project, so keep it filled
+        if (get().taskScope === 'mine') {
+          await get().fetchTasks(undefined, 1);
+        }
         set({ loading: false });
         return;
       }
@@ -573,7 +1518,11 @@ export const useStore = create<AppState>((set, get) => ({
       await Promise.all([
         get().fetchTasks(project.id, 1),
         get().fetchNotes(project.id),
-        get().fetchResources(project.id)
+        get().fetchResources(project.id),
+        get().fetchProjectShares(project.id),
+        get().fetchProjectMembers(project.id),
+        get().fetchActivity(project.id),
+        fetchProjectRole(project.id).then((projectRole) => set({ projectRole }))
       ]);
 
     } catch (error) {
@@ -589,29 +1538,401 @@ export const useStore = create<AppState>((set, get) => ({
     }
   },
 
+  // Replays a queued mutation; throws so the queue knows whether it went through
   processOfflineOperation: async (operation: QueuedOperation) => {
-    const { type, entity, data } = operation;
-    
-    switch (entity) {
-      case 'task':
-        switch (type) {
-          case 'create':
-            await get().createTask(data);
-            break;
-          case 'update':
-            await get().updateTask(data.id, data);
-            break;
-          case 'delete':
-            await get().deleteTask(data.id);
-            break;
-        }
-        break;
+    const row = await runMutation(operation);
+    applyMutation(set, operation, row);
+    if (operation.tempId && row) {
+      remapTempId(set, operation.tempId, row.id);
+    }
+    // Edits queued after this one expect the version the server now holds
+    if ((operation.type === 'update' || operation.tempId) && row?.updated_at) {
+      offlineQueue.updateBaseVersion(operation.entity, row.id, row.updated_at);
+    }
+  },
+
+  retryFailedOperation: (id) => offlineQueue.retryFailedOperation(id),
+
+  discardFailedOperation: (id) => offlineQueue.discardFailedOperation(id),
+
+  dismissRemoteChange: (id) => {
+    set((state) => {
+      const remoteChanges = { ...state.remoteChanges };
+      delete remoteChanges[id];
+      return { remoteChanges };
+    });
+  },
+
+  resolveConflict: (id, choices) => {
+    const operation = get().failedOperations.find((op) => op.id === id);
+    if (!operation?.conflict) return;
+
+    const server = operation.conflict as { id: string; updated_at?: string };
+    const mine = Object.fromEntries(
+      Object.entries(operation.data).filter(([field]) => field !== 'id' && choices[field] === 'mine')
+    );
+
+    if (Object.keys(mine).length === 0) {
+      // Nothing of ours survives, so take the server row as is
+      offlineQueue.discardFailedOperation(id);
+      applyMutation(set, { ...operation, type: 'update' }, server);
+      return;
+    }
+
+    // Show the merged row right away; the replay confirms it
+    applyMutation(set, { ...operation, type: 'update' }, { ...server, ...mine });
+    offlineQueue.retryFailedOperation(id, {
+      data: { ...mine, id: operation.data.id },
+      previous: server
+    });
+  },
+
+  signIn: (email, password) => attempt(set, 'signing in', () => signInWithPassword(email, password)),
+
+  sendMagicLink: (email) => attempt(set, 'sending sign-in link', () => sendMagicLink(email)),
+
+  createAccount: (email) => attempt(set, 'creating account', () => createAccount(email)),
+
+  setPassword: (password) => attempt(set, 'setting password', () => setPassword(password)),
+
+  signOut: async () => {
+    await attempt(set, 'signing out', signOut);
+  },
+
+  fetchWorkspaces: async () => {
+    try {
+      await initializeAuth();
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+
+      const workspaces = data || [];
+      set({ workspaces });
+      // Membership may have been revoked since the workspace was picked
+      const { selectedWorkspaceId } = get();
+      if (selectedWorkspaceId && !workspaces.some((w) => w.id === selectedWorkspaceId)) {
+        localStorage.removeItem(SELECTED_WORKSPACE_KEY);
+        set({ selectedWorkspaceId: null });
+      }
+    } catch (error) {
+      // Offline, keep whatever workspaces we already know about
+      if (!navigator.onLine) return;
+      const appError = parseError(error);
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching workspaces:', error);
+    }
+  },
+
+  createWorkspace: async (name) => {
+    try {
+      const { data: workspace, error } = await supabase
+        .from('workspaces')
+        .insert([{ name }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      set((state) => ({
+        workspaces: [...state.workspaces, workspace].sort((a, b) => a.name.localeCompare(b.name))
+      }));
+      await get().setSelectedWorkspace(workspace.id);
+      return workspace;
+    } catch (error) {
+      const appError = parseError(error);
+      set({ error: appError.message, lastError: appError });
+      console.error('Error creating workspace:', error);
+      return null;
+    }
+  },
+
+  setSelectedWorkspace: async (workspaceId) => {
+    if (workspaceId) {
+      localStorage.setItem(SELECTED_WORKSPACE_KEY, workspaceId);
+    } else {
+      localStorage.removeItem(SELECTED_WORKSPACE_KEY);
+    }
+    set({ selectedWorkspaceId: workspaceId, workspaceMembers: [] });
+    await get().setSelectedProject(null);
+    await get().fetchProjects(1);
+  },
+
+  fetchWorkspaceMembers: async (workspaceId) => {
+    try {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('created_at');
+
+      if (error) throw error;
+      set({ workspaceMembers: data || [] });
+    } catch (error) {
+      const appError = parseError(error);
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching workspace members:', error);
     }
   },
 
+  // Adding someone who is already a member changes their role
+  addWorkspaceMember: (email, role) =>
+    attempt(set, 'adding workspace member', async () => {
+      const { data: member, error } = await supabase
+        .rpc('add_workspace_member', {
+          workspace: get().selectedWorkspaceId,
+          member_email: email,
+          member_role: role
+        })
+        .single<WorkspaceMember>();
+
+      if (error) throw error;
+      set((state) => ({
+        workspaceMembers: [...state.workspaceMembers.filter((m) => m.user_id !== member.user_id), member]
+      }));
+    }),
+
+  removeWorkspaceMember: (userId) =>
+    attempt(set, 'removing workspace member', async () => {
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', get().selectedWorkspaceId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      set((state) => ({
+        workspaceMembers: state.workspaceMembers.filter((m) => m.user_id !== userId)
+      }));
+
+      // Leaving the workspace takes its projects with it
+      if (userId === get().user?.id) {
+        await get().fetchWorkspaces();
+        await get().setSelectedWorkspace(null);
+      }
+    }),
+
+  fetchProjectMembers: async (projectId) => {
+    try {
+      const { data, error } = await supabase.rpc('project_members', { target: projectId });
+      if (error) throw error;
+
+      const members: ProjectMember[] = data || [];
+      if (get().selectedProject?.id === projectId) {
+        set({ projectMembers: members });
+      }
+      return members;
+    } catch (error) {
+      // Offline, fall back to what we know about the selected project
+      if (!navigator.onLine) {
+        return get().selectedProject?.id === projectId ? get().projectMembers : [];
+      }
+      const appError = parseError(error);
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching project members:', error);
+      return [];
+    }
+  },
+
+  // TaskList refetches when the scope changes, the same way it does for setPage
+  setTaskScope: (scope) => set({ taskScope: scope, currentPage: 1 }),
+
+  fetchActivity: async (projectId) => {
+    try {
+      const { data, error } = await supabase
+        .from('activity_logs')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('timestamp', { ascending: false })
+        .limit(ACTIVITY_PER_PAGE);
+
+      if (error) throw error;
+      if (get().selectedProject?.id !== projectId) return;
+
+      const entries: ActivityLog[] = data || [];
+      const loadedIds = new Set(entries.map((entry) => entry.id));
+      set((state) => ({
+        // Keep entries that arrived over realtime while this was loading
+        activity: [...state.activity.filter((entry) => !loadedIds.has(entry.id)), ...entries],
+        hasMoreActivity: entries.length === ACTIVITY_PER_PAGE
+      }));
+    } catch (error) {
+      // The log isn't cached; offline the feed just stays empty
+      if (!navigator.onLine) return;
+      const appError = parseError(error);
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching activity:', error);
+    }
+  },
+
+  fetchOlderActivity: async () => {
+    const { activity, selectedProject } = get();
+    const oldest = activity[activity.length - 1];
+    if (!selectedProject || !oldest) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('activity_logs')
+        .select('*')
+        .eq('project_id', selectedProject.id)
+        .lt('timestamp', oldest.timestamp)
+        .order('timestamp', { ascending: false })
+        .limit(ACTIVITY_PER_PAGE);
+
+      if (error) throw error;
+      if (get().selectedProject?.id !== selectedProject.id) return;
+
+      const older: ActivityLog[] = data || [];
+      set((state) => ({
+        activity: [...state.activity, ...older],
+        hasMoreActivity: older.length === ACTIVITY_PER_PAGE
+      }));
+    } catch (error) {
+      const appError = parseError(error);
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching older activity:', error);
+    }
+  },
+
+  undo: () => replayHistory(set, get, 'undoStack'),
+
+  redo: () => replayHistory(set, get, 'redoStack'),
+
+  batchMutations: async (description, action) => {
+    const group: HistoryEntry = { id: crypto.randomUUID(), description, mutations: [] };
+    try {
+      return await action(group);
+    } finally {
+      if (group.mutations.length > 0) pushHistory(set, group);
+    }
+  },
+
+  fetchTaskActivity: async (taskId) => {
+    // Nothing is logged until an offline-created task reaches the server
+    if (isTempId(taskId)) return [];
+    try {
+      const { data, error } = await supabase
+        .from('activity_logs')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('timestamp', { ascending: false })
+        .limit(ACTIVITY_PER_PAGE);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      if (!navigator.onLine) return [];
+      const appError = parseError(error);
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching task activity:', error);
+      return [];
+    }
+  },
+
+  fetchProjectShares: async (projectId) => {
+    try {
+      const { data, error } = await supabase
+        .from('project_shares')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at');
+
+      if (error) throw error;
+      set({ projectShares: data || [] });
+    } catch (error) {
+      // Sharing details aren't needed to work offline
+      if (!navigator.onLine) return;
+      const appError = parseError(error);
+      set({ error: appError.message, lastError: appError });
+      console.error('Error fetching project shares:', error);
+    }
+  },
+
+  // Sharing again with the same person changes their role
+  shareProject: (email, role) =>
+    attempt(set, 'sharing project', async () => {
+      const { data: share, error } = await supabase
+        .rpc('share_project', {
+          project: get().selectedProject?.id,
+          member_email: email,
+          member_role: role
+        })
+        .single<ProjectShare>();
+
+      if (error) throw error;
+      set((state) => ({
+        projectShares: [...state.projectShares.filter((s) => s.user_id !== share.user_id), share]
+      }));
+    }),
+
+  unshareProject: (userId) =>
+    attempt(set, 'removing project share', async () => {
+      const { error } = await supabase
+        .from('project_shares')
+        .delete()
+        .eq('project_id', get().selectedProject?.id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      set((state) => ({
+        projectShares: state.projectShares.filter((s) => s.user_id !== userId)
+      }));
+
+      if (userId === get().user?.id) {
+        await get().setSelectedProject(null);
+        await get().fetchProjects(1);
+      }
+    }),
+
   clearError: () => set({ lastError: null, error: null }),
 
   setError: (error) => set({ error }),
 
   setPage: (page: number) => set({ currentPage: page }),
-}));
\ No newline at end of file
+}));
+
+offlineQueue.subscribe(() => {
+  useStore.setState({ failedOperations: offlineQueue.getFailedOperations() });
+});
+
+Object.keys(ENTITY_COLLECTIONS).forEach((entity) => {
+  offlineQueue.registerHandler(entity as QueuedOperation['entity'], {
+    replay: (operation) => useStore.getState().processOfflineOperation(operation),
+    rollback: (operation) => rollbackOptimistic(useStore.setState, operation)
+  });
+});
+
+// Write-through: every row that lands in the store is mirrored to the local cache
+useStore.subscribe((state, previous) => {
+  Object.values(ENTITY_COLLECTIONS).forEach((collection) => {
+    if (state[collection] === previous[collection]) return;
+    const unchanged = new Set<CachedRow>(previous[collection]);
+    cacheRows(collection, (state[collection] as CachedRow[]).filter((row) => !unchanged.has(row)));
+  });
+});
+
+// The first session is whoever was already signed in (or the anonymous fallback).
+// After that, a different user id means someone else's data is on screen.
+let sessionUserId: string | null | undefined;
+supabase.auth.onAuthStateChange((_event, session) => {
+  const user = session?.user ?? null;
+  useStore.setState({ user });
+
+  const previousUserId = sessionUserId;
+  sessionUserId = user?.id ?? null;
+  if (previousUserId && previousUserId !== sessionUserId) {
+    // Supabase calls made inside this callback would deadlock, so defer the reload
+    setTimeout(() => attempt(useStore.setState, 'loading the new account', resetForUser), 0);
+  }
+  if (user && !user.is_anonymous && previousUserId !== sessionUserId) {
+    setTimeout(() => claimUnownedProjects().catch((error) => console.error('Error claiming projects:', error)), 0);
+  }
+});
+
+window.addEventListener('online', () => {
+  refreshLocalCache();
+  unsavedMessages.forEach(({ message, projectId }) => saveMessage(message, projectId));
+});
+refreshLocalCache();
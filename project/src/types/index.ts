@@ -5,9 +5,48 @@ export type Project = {
   phase: 'Planning' | 'In Progress' | 'On Hold' | 'Completed' | 'Ongoing';
   priority: 'High' | 'Medium' | 'Low';
   timeline_type: 'No Timeline' | 'Flexible' | 'Strict';
+  // yyyy-MM-dd
+  start_date: string | null;
+  target_date: string | null;
   created_at: string;
   updated_at: string;
   archived: boolean;
+  owner_id: string | null;
+  // null for a personal project
+  workspace_id: string | null;
+};
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export type Workspace = {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+};
+
+export type WorkspaceMember = {
+  workspace_id: string;
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+};
+
+// Anyone with access to a project, whether as its owner, a workspace member or through a share
+export type ProjectMember = {
+  user_id: string;
+  email: string | null;
+  display_name: string | null;
+  role: WorkspaceRole;
+};
+
+export type ProjectShare = {
+  project_id: string;
+  user_id: string;
+  email: string | null;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  created_at: string;
 };
 
 export type Task = {
@@ -19,8 +58,12 @@ export type Task = {
   priority: 'High' | 'Medium' | 'Low';
   due_date: string | null;
   completed: boolean;
+  // Ids of the users the task is assigned to
+  assignee_ids: string[];
   created_at: string;
   updated_at: string;
+  // Set while the task is in the trash
+  deleted_at: string | null;
 };
 
 export type Note = {
@@ -31,6 +74,7 @@ export type Note = {
   tags: string[];
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
 };
 
 export type Resource = {
@@ -41,6 +85,7 @@ export type Resource = {
   url: string | null;
   file_path: string | null;
   created_at: string;
+  deleted_at: string | null;
 };
 
 export type Reminder = {
@@ -49,13 +94,40 @@ export type Reminder = {
   linked_entity_id: string;
   reminder_date: string;
   message: string | null;
+  deleted_at: string | null;
+};
+
+// One change recorded by the activity log triggers. Updates carry only the fields
+// that changed; creates have no old_values and deletes no new_values.
+export type ActivityLog = {
+  id: string;
+  action: 'Create' | 'Update' | 'Delete';
+  entity_type: 'Project' | 'Task' | 'Note' | 'Resource' | 'Reminder';
+  entity_id: string;
+  // null once the user who made the change has been removed
+  actor_id: string | null;
+  project_id: string;
+  task_id: string | null;
+  entity_name: string | null;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  timestamp: string;
 };
 
+// Something in the trash, as it was when it was deleted
+export type TrashItem =
+  | { entity: 'task'; row: Task }
+  | { entity: 'note'; row: Note }
+  | { entity: 'resource'; row: Resource }
+  | { entity: 'reminder'; row: Reminder };
+
 export type Message = {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  // Assistant replies are 'streaming' while tokens arrive and 'stopped' if the user cancelled
+  status?: 'streaming' | 'stopped';
 };
 
 export interface TranscriptionResult {
@@ -75,4 +147,20 @@ export interface VoiceConfig {
   ssmlGender: 'NEUTRAL' | 'MALE' | 'FEMALE';
   pitch: number;
   speakingRate: number;
-}
\ No newline at end of file
+}
+export type TaskFilters = {
+  projectId?: string;
+  name?: string;
+  search?: string;
+  priority?: Task['priority'];
+  phase?: Task['phase'];
+  completed?: boolean;
+  assigneeId?: string;
+  unassigned?: boolean;
+  overdue?: boolean;
+  dueAfter?: string;
+  dueBefore?: string;
+  sortBy?: 'name' | 'priority' | 'due_date' | 'phase' | 'created_at';
+  sortDirection?: 'asc' | 'desc';
+  limit?: number;
+};
@@ -0,0 +1,29 @@
+/*
+  # Chat History
+
+  1. Tables Created
+    - messages: chat messages, scoped to a project (project_id is NULL for the
+      general conversation that isn't tied to any project)
+
+  2. Security
+    - RLS enabled
+    - Policy set for authenticated users, matching the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('user', 'assistant')),
+  content text NOT NULL,
+  status text CHECK (status IN ('stopped')),
+  timestamp timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS messages_project_timestamp_idx
+  ON messages (project_id, timestamp DESC);
+
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage all messages"
+  ON messages FOR ALL TO authenticated
+  USING (true);
@@ -0,0 +1,29 @@
+/*
+  # Row Versioning
+
+  1. Changes
+    - Keeps updated_at current on every update of projects, tasks and notes.
+      Offline edits are replayed only if updated_at still matches the version
+      the client last saw, so concurrent changes are detected instead of
+      overwritten.
+*/
+
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER projects_set_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+CREATE TRIGGER tasks_set_updated_at
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+CREATE TRIGGER notes_set_updated_at
+  BEFORE UPDATE ON notes
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
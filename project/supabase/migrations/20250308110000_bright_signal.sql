@@ -0,0 +1,16 @@
+/*
+  # Realtime
+
+  1. Changes
+    - Publishes changes on projects, tasks, notes, resources and reminders to
+      Supabase Realtime so open sessions see each other's edits
+    - REPLICA IDENTITY FULL so update and delete events carry the whole old row
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE projects, tasks, notes, resources, reminders;
+
+ALTER TABLE projects REPLICA IDENTITY FULL;
+ALTER TABLE tasks REPLICA IDENTITY FULL;
+ALTER TABLE notes REPLICA IDENTITY FULL;
+ALTER TABLE resources REPLICA IDENTITY FULL;
+ALTER TABLE reminders REPLICA IDENTITY FULL;
@@ -0,0 +1,154 @@
+/*
+  # Project Ownership
+
+  1. Changes
+    - projects.owner_id and messages.owner_id, defaulting to the signed-in user.
+      Anonymous users own their rows too, so upgrading an anonymous account to
+      an email account keeps the same id and everything created before.
+    - Drops the unused users.master_code column
+
+  2. Security
+    - Replaces the "manage all" policies with ones scoped to auth.uid().
+      Tasks, notes, resources, reminders and activity logs are visible through
+      the project they belong to.
+    - Projects and messages created before this migration are given to the
+      oldest account, preferring one that signed up with an email. When there
+      are no accounts yet, claim_unowned_projects() hands them to the first
+      email account that signs in.
+*/
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS projects_owner_id_idx ON projects (owner_id);
+
+-- Before this migration every visitor shared one set of data
+WITH legacy_owner AS (
+  SELECT id FROM auth.users
+  ORDER BY is_anonymous, created_at
+  LIMIT 1
+)
+UPDATE projects SET owner_id = (SELECT id FROM legacy_owner) WHERE owner_id IS NULL;
+
+WITH legacy_owner AS (
+  SELECT id FROM auth.users
+  ORDER BY is_anonymous, created_at
+  LIMIT 1
+)
+UPDATE messages SET owner_id = (SELECT id FROM legacy_owner) WHERE owner_id IS NULL;
+
+-- Only left with unowned rows when the backfill found no account. Guests can't
+-- claim them, since anyone opening the app is signed in as one.
+CREATE OR REPLACE FUNCTION claim_unowned_projects()
+RETURNS integer AS $$
+DECLARE
+  claimed integer;
+BEGIN
+  IF auth.uid() IS NULL OR coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE projects SET owner_id = auth.uid() WHERE owner_id IS NULL;
+  GET DIAGNOSTICS claimed = ROW_COUNT;
+  UPDATE messages SET owner_id = auth.uid() WHERE owner_id IS NULL;
+  RETURN claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE users DROP COLUMN IF EXISTS master_code;
+
+-- Ownership checks run as the definer so policies can look through tables
+-- the caller can't read directly without recursing into their policies
+CREATE OR REPLACE FUNCTION owns_project(target uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects WHERE id = target AND owner_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION owns_task(target uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tasks WHERE id = target AND owns_project(project_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION owns_note(target uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM notes
+    WHERE id = target AND (owns_project(project_id) OR owns_task(task_id))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reminders point at a project, task or note
+CREATE OR REPLACE FUNCTION owns_reminder_target(kind entity_type, target uuid)
+RETURNS boolean AS $$
+  SELECT CASE kind
+    WHEN 'Project' THEN owns_project(target)
+    WHEN 'Task' THEN owns_task(target)
+    WHEN 'Note' THEN owns_note(target)
+    ELSE false
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Activity logs point at any kind of entity
+CREATE OR REPLACE FUNCTION owns_entity(kind entity_type, target uuid)
+RETURNS boolean AS $$
+  SELECT CASE kind
+    WHEN 'Resource' THEN EXISTS (
+      SELECT 1 FROM resources
+      WHERE id = target AND (owns_project(project_id) OR owns_task(task_id))
+    )
+    WHEN 'Reminder' THEN EXISTS (
+      SELECT 1 FROM reminders
+      WHERE id = target AND owns_reminder_target(linked_entity_type, linked_entity_id)
+    )
+    ELSE owns_reminder_target(kind, target)
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can manage all projects" ON projects;
+DROP POLICY IF EXISTS "Users can manage all tasks" ON tasks;
+DROP POLICY IF EXISTS "Users can manage all notes" ON notes;
+DROP POLICY IF EXISTS "Users can manage all resources" ON resources;
+DROP POLICY IF EXISTS "Users can manage all reminders" ON reminders;
+DROP POLICY IF EXISTS "Users can view all activity logs" ON activity_logs;
+DROP POLICY IF EXISTS "Users can manage all messages" ON messages;
+
+CREATE POLICY "Users can manage their own projects"
+  ON projects FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can manage tasks in their projects"
+  ON tasks FOR ALL TO authenticated
+  USING (owns_project(project_id))
+  WITH CHECK (owns_project(project_id));
+
+CREATE POLICY "Users can manage notes in their projects"
+  ON notes FOR ALL TO authenticated
+  USING (owns_project(project_id) OR owns_task(task_id))
+  WITH CHECK (owns_project(project_id) OR owns_task(task_id));
+
+CREATE POLICY "Users can manage resources in their projects"
+  ON resources FOR ALL TO authenticated
+  USING (owns_project(project_id) OR owns_task(task_id))
+  WITH CHECK (owns_project(project_id) OR owns_task(task_id));
+
+CREATE POLICY "Users can manage reminders in their projects"
+  ON reminders FOR ALL TO authenticated
+  USING (owns_reminder_target(linked_entity_type, linked_entity_id))
+  WITH CHECK (owns_reminder_target(linked_entity_type, linked_entity_id));
+
+CREATE POLICY "Users can view activity in their projects"
+  ON activity_logs FOR SELECT TO authenticated
+  USING (owns_entity(entity_type, entity_id));
+
+CREATE POLICY "Users can manage their own messages"
+  ON messages FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid() AND (project_id IS NULL OR owns_project(project_id)));
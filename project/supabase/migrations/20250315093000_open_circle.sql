@@ -0,0 +1,331 @@
+/*
+  # Workspaces and Sharing
+
+  1. Tables Created
+    - workspaces: a team's shared space for projects
+    - workspace_members: who belongs to a workspace and with which role
+    - project_shares: access to a single project for someone outside its workspace
+
+  2. Changes
+    - projects.workspace_id; NULL keeps a project personal to its owner
+    - Workspace creators become their workspace's owner
+    - add_workspace_member() and share_project() invite existing users by email
+
+  3. Security
+    - A user's role on a project is the strongest of: owning it, their role in
+      its workspace, and a direct share. Owners and editors can change a
+      project's contents; viewers can only read them.
+    - Only owners can delete projects, manage members or share projects
+    - A project's owner never changes, and only its owner can move it to another
+      workspace or make it personal
+    - Replaces the owner-only policies and helper functions from the previous migration
+*/
+
+-- Strongest first, so the best of several grants can be picked with min()
+CREATE TYPE workspace_role AS ENUM ('owner', 'editor', 'viewer');
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+-- email is copied in when a member is added so members can be listed without reading auth.users
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  role workspace_role NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS project_shares (
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  role workspace_role NOT NULL CHECK (role <> 'owner'),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS projects_workspace_id_idx ON projects (workspace_id);
+CREATE INDEX IF NOT EXISTS workspace_members_user_id_idx ON workspace_members (user_id);
+CREATE INDEX IF NOT EXISTS project_shares_user_id_idx ON project_shares (user_id);
+
+CREATE OR REPLACE FUNCTION workspace_role_of(target uuid)
+RETURNS workspace_role AS $$
+  SELECT role FROM workspace_members WHERE workspace_id = target AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- NULL when the user has no access at all
+CREATE OR REPLACE FUNCTION project_role(target uuid)
+RETURNS workspace_role AS $$
+  SELECT min(role) FROM (
+    SELECT 'owner'::workspace_role AS role FROM projects
+      WHERE id = target AND owner_id = auth.uid()
+    UNION ALL
+    SELECT m.role FROM projects p
+      JOIN workspace_members m ON m.workspace_id = p.workspace_id
+      WHERE p.id = target AND m.user_id = auth.uid()
+    UNION ALL
+    SELECT role FROM project_shares
+      WHERE project_id = target AND user_id = auth.uid()
+  ) grants;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The project a task, note, resource or reminder belongs to
+CREATE OR REPLACE FUNCTION entity_project_id(kind entity_type, target uuid)
+RETURNS uuid AS $$
+  SELECT CASE kind
+    WHEN 'Project' THEN target
+    WHEN 'Task' THEN (SELECT project_id FROM tasks WHERE id = target)
+    WHEN 'Note' THEN (
+      SELECT coalesce(n.project_id, t.project_id)
+      FROM notes n LEFT JOIN tasks t ON t.id = n.task_id
+      WHERE n.id = target
+    )
+    WHEN 'Resource' THEN (
+      SELECT coalesce(r.project_id, t.project_id)
+      FROM resources r LEFT JOIN tasks t ON t.id = r.task_id
+      WHERE r.id = target
+    )
+    WHEN 'Reminder' THEN (
+      SELECT CASE r.linked_entity_type
+        WHEN 'Project' THEN r.linked_entity_id
+        WHEN 'Task' THEN (SELECT project_id FROM tasks WHERE id = r.linked_entity_id)
+        WHEN 'Note' THEN (
+          SELECT coalesce(n.project_id, t.project_id)
+          FROM notes n LEFT JOIN tasks t ON t.id = n.task_id
+          WHERE n.id = r.linked_entity_id
+        )
+      END
+      FROM reminders r WHERE r.id = target
+    )
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_view_project(target uuid)
+RETURNS boolean AS $$
+  SELECT project_role(target) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_project(target uuid)
+RETURNS boolean AS $$
+  SELECT coalesce(project_role(target) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION add_workspace_owner()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO workspace_members (workspace_id, user_id, email, role)
+  VALUES (NEW.id, NEW.created_by, (SELECT email FROM auth.users WHERE id = NEW.created_by), 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER workspaces_add_owner
+  AFTER INSERT ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION add_workspace_owner();
+
+CREATE OR REPLACE FUNCTION find_user_id(member_email text)
+RETURNS uuid AS $$
+DECLARE
+  found uuid;
+BEGIN
+  SELECT id INTO found FROM auth.users WHERE lower(email) = lower(member_email);
+  IF found IS NULL THEN
+    RAISE EXCEPTION 'No account uses %', member_email USING ERRCODE = 'P0002';
+  END IF;
+  RETURN found;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_user_id(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION add_workspace_member(workspace uuid, member_email text, member_role workspace_role)
+RETURNS workspace_members AS $$
+DECLARE
+  added workspace_members;
+BEGIN
+  IF workspace_role_of(workspace) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only workspace owners can add members' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, email, role)
+  VALUES (workspace, find_user_id(member_email), lower(member_email), member_role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO added;
+  RETURN added;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION share_project(project uuid, member_email text, member_role workspace_role)
+RETURNS project_shares AS $$
+DECLARE
+  added project_shares;
+BEGIN
+  IF project_role(project) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only project owners can share it' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO project_shares (project_id, user_id, email, role)
+  VALUES (project, find_user_id(member_email), lower(member_email), member_role)
+  ON CONFLICT (project_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO added;
+  RETURN added;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_shares ENABLE ROW LEVEL SECURITY;
+
+-- The creator check covers the insert's own RETURNING, which runs before the owner row exists
+CREATE POLICY "Members can view their workspaces"
+  ON workspaces FOR SELECT TO authenticated
+  USING (created_by = auth.uid() OR workspace_role_of(id) IS NOT NULL);
+
+CREATE POLICY "Users can create workspaces"
+  ON workspaces FOR INSERT TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can manage their workspaces"
+  ON workspaces FOR UPDATE TO authenticated
+  USING (workspace_role_of(id) = 'owner');
+
+CREATE POLICY "Owners can delete their workspaces"
+  ON workspaces FOR DELETE TO authenticated
+  USING (workspace_role_of(id) = 'owner');
+
+CREATE POLICY "Members can view fellow members"
+  ON workspace_members FOR SELECT TO authenticated
+  USING (workspace_role_of(workspace_id) IS NOT NULL);
+
+-- Members are added through add_workspace_member(); owners change roles or remove them here,
+-- and anyone can leave
+CREATE POLICY "Owners can change member roles"
+  ON workspace_members FOR UPDATE TO authenticated
+  USING (workspace_role_of(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON workspace_members FOR DELETE TO authenticated
+  USING (workspace_role_of(workspace_id) = 'owner' OR user_id = auth.uid());
+
+CREATE POLICY "Users can view shares of projects they can see"
+  ON project_shares FOR SELECT TO authenticated
+  USING (can_view_project(project_id));
+
+CREATE POLICY "Owners can change or remove shares"
+  ON project_shares FOR UPDATE TO authenticated
+  USING (project_role(project_id) = 'owner');
+
+CREATE POLICY "Owners can remove shares and users can leave"
+  ON project_shares FOR DELETE TO authenticated
+  USING (project_role(project_id) = 'owner' OR user_id = auth.uid());
+
+-- Replace the owner-only policies
+DROP POLICY IF EXISTS "Users can manage their own projects" ON projects;
+DROP POLICY IF EXISTS "Users can manage tasks in their projects" ON tasks;
+DROP POLICY IF EXISTS "Users can manage notes in their projects" ON notes;
+DROP POLICY IF EXISTS "Users can manage resources in their projects" ON resources;
+DROP POLICY IF EXISTS "Users can manage reminders in their projects" ON reminders;
+DROP POLICY IF EXISTS "Users can view activity in their projects" ON activity_logs;
+DROP POLICY IF EXISTS "Users can manage their own messages" ON messages;
+
+DROP FUNCTION IF EXISTS owns_entity(entity_type, uuid);
+DROP FUNCTION IF EXISTS owns_reminder_target(entity_type, uuid);
+DROP FUNCTION IF EXISTS owns_note(uuid);
+DROP FUNCTION IF EXISTS owns_task(uuid);
+DROP FUNCTION IF EXISTS owns_project(uuid);
+
+-- owner_id is checked directly because project_role() can't see a row still being inserted
+CREATE POLICY "Users can view projects shared with them"
+  ON projects FOR SELECT TO authenticated
+  USING (owner_id = auth.uid() OR can_view_project(id));
+
+CREATE POLICY "Users can create projects in their workspaces"
+  ON projects FOR INSERT TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND (workspace_id IS NULL OR workspace_role_of(workspace_id) IN ('owner', 'editor'))
+  );
+
+CREATE POLICY "Editors can update projects"
+  ON projects FOR UPDATE TO authenticated
+  USING (can_edit_project(id))
+  WITH CHECK (workspace_id IS NULL OR workspace_role_of(workspace_id) IN ('owner', 'editor'));
+
+-- Update policies can't compare against the stored row, so a trigger guards the
+-- columns that decide who controls a project
+CREATE OR REPLACE FUNCTION guard_project_control()
+RETURNS trigger AS $$
+BEGIN
+  -- Unowned projects from before ownership existed can still be claimed
+  IF OLD.owner_id IS NOT NULL AND NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'A project''s owner can''t be changed' USING ERRCODE = '42501';
+  END IF;
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id AND OLD.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the project owner can move it to another workspace' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER projects_guard_control
+  BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION guard_project_control();
+
+CREATE POLICY "Owners can delete projects"
+  ON projects FOR DELETE TO authenticated
+  USING (project_role(id) = 'owner');
+
+CREATE POLICY "Users can view tasks in shared projects"
+  ON tasks FOR SELECT TO authenticated
+  USING (can_view_project(project_id));
+
+CREATE POLICY "Editors can manage tasks"
+  ON tasks FOR ALL TO authenticated
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+CREATE POLICY "Users can view notes in shared projects"
+  ON notes FOR SELECT TO authenticated
+  USING (can_view_project(coalesce(project_id, entity_project_id('Task', task_id))));
+
+CREATE POLICY "Editors can manage notes"
+  ON notes FOR ALL TO authenticated
+  USING (can_edit_project(coalesce(project_id, entity_project_id('Task', task_id))))
+  WITH CHECK (can_edit_project(coalesce(project_id, entity_project_id('Task', task_id))));
+
+CREATE POLICY "Users can view resources in shared projects"
+  ON resources FOR SELECT TO authenticated
+  USING (can_view_project(coalesce(project_id, entity_project_id('Task', task_id))));
+
+CREATE POLICY "Editors can manage resources"
+  ON resources FOR ALL TO authenticated
+  USING (can_edit_project(coalesce(project_id, entity_project_id('Task', task_id))))
+  WITH CHECK (can_edit_project(coalesce(project_id, entity_project_id('Task', task_id))));
+
+CREATE POLICY "Users can view reminders in shared projects"
+  ON reminders FOR SELECT TO authenticated
+  USING (can_view_project(entity_project_id(linked_entity_type, linked_entity_id)));
+
+CREATE POLICY "Editors can manage reminders"
+  ON reminders FOR ALL TO authenticated
+  USING (can_edit_project(entity_project_id(linked_entity_type, linked_entity_id)))
+  WITH CHECK (can_edit_project(entity_project_id(linked_entity_type, linked_entity_id)));
+
+CREATE POLICY "Users can view activity in shared projects"
+  ON activity_logs FOR SELECT TO authenticated
+  USING (can_view_project(entity_project_id(entity_type, entity_id)));
+
+-- Chat history stays personal, even in shared projects
+CREATE POLICY "Users can manage their own messages"
+  ON messages FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid() AND (project_id IS NULL OR can_view_project(project_id)));
@@ -0,0 +1,63 @@
+/*
+  # Task Assignees
+
+  1. Changes
+    - tasks.assignee_ids: the users a task is assigned to
+    - project_members() lists everyone with access to a project, with a display
+      name taken from their profile or email, so people can be picked by name
+
+  2. Security
+    - Tasks can only be assigned to people who can edit the task's project
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS assignee_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS tasks_assignee_ids_idx ON tasks USING gin (assignee_ids);
+
+CREATE OR REPLACE FUNCTION project_members(target uuid)
+RETURNS TABLE (user_id uuid, email text, display_name text, role workspace_role) AS $$
+  SELECT
+    u.id,
+    u.email::text,
+    coalesce(
+      u.raw_user_meta_data->>'full_name',
+      u.raw_user_meta_data->>'name',
+      split_part(u.email, '@', 1)
+    ),
+    min(grants.role)
+  FROM (
+    SELECT owner_id AS user_id, 'owner'::workspace_role AS role FROM projects
+      WHERE id = target
+    UNION ALL
+    SELECT m.user_id, m.role FROM projects p
+      JOIN workspace_members m ON m.workspace_id = p.workspace_id
+      WHERE p.id = target
+    UNION ALL
+    SELECT user_id, role FROM project_shares
+      WHERE project_id = target
+  ) grants
+  JOIN auth.users u ON u.id = grants.user_id
+  WHERE can_view_project(target)
+  GROUP BY u.id, u.email, u.raw_user_meta_data;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION check_task_assignees()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.assignee_ids) AS assignee
+    WHERE assignee NOT IN (
+      SELECT user_id FROM project_members(NEW.project_id) WHERE role <> 'viewer'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Tasks can only be assigned to people who can edit the project'
+      USING ERRCODE = '23503';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER tasks_check_assignees
+  BEFORE INSERT OR UPDATE OF assignee_ids, project_id ON tasks
+  FOR EACH ROW EXECUTE FUNCTION check_task_assignees();
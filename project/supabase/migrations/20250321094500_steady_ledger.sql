@@ -0,0 +1,130 @@
+/*
+  # Activity Log
+
+  1. Changes
+    - activity_logs records who made each change (actor_id), the project and
+      task it belongs to, a label for the entity, and the changed fields'
+      values before (old_values) and after (new_values). Creates only have
+      new_values and deletes only old_values.
+    - Triggers on projects, tasks, notes, resources and reminders write the
+      log, so edits made offline and replayed later are recorded too
+    - Deleting a project removes its log along with everything else in it
+    - Published to Supabase Realtime so open feeds pick up new entries
+
+  2. Security
+    - The log is written only by the triggers; users can read the activity of
+      projects they can view
+*/
+
+ALTER TABLE activity_logs
+  ADD COLUMN IF NOT EXISTS actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  ADD COLUMN IF NOT EXISTS project_id uuid,
+  ADD COLUMN IF NOT EXISTS task_id uuid,
+  ADD COLUMN IF NOT EXISTS entity_name text,
+  ADD COLUMN IF NOT EXISTS old_values jsonb,
+  ADD COLUMN IF NOT EXISTS new_values jsonb;
+
+-- Entries written before the log had these columns
+UPDATE activity_logs SET
+  project_id = entity_project_id(entity_type, entity_id),
+  task_id = CASE WHEN entity_type = 'Task' THEN entity_id END
+WHERE project_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS activity_logs_project_timestamp_idx
+  ON activity_logs (project_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS activity_logs_task_timestamp_idx
+  ON activity_logs (task_id, timestamp DESC);
+
+CREATE OR REPLACE FUNCTION log_activity()
+RETURNS trigger AS $$
+DECLARE
+  kind entity_type := TG_ARGV[0]::entity_type;
+  old_row jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  entity jsonb := coalesce(new_row, old_row);
+  target_project uuid;
+  target_task uuid;
+  changed_from jsonb := old_row;
+  changed_to jsonb := new_row;
+BEGIN
+  target_project := CASE kind
+    WHEN 'Project' THEN (entity->>'id')::uuid
+    WHEN 'Reminder' THEN entity_project_id(
+      (entity->>'linked_entity_type')::entity_type,
+      (entity->>'linked_entity_id')::uuid
+    )
+    ELSE coalesce((entity->>'project_id')::uuid, entity_project_id('Task', (entity->>'task_id')::uuid))
+  END;
+
+  IF kind = 'Project' AND TG_OP = 'DELETE' THEN
+    DELETE FROM activity_logs WHERE project_id = target_project;
+    RETURN NULL;
+  END IF;
+  -- Rows removed along with their project have nowhere to be shown
+  IF target_project IS NULL OR NOT EXISTS (SELECT 1 FROM projects WHERE id = target_project) THEN
+    RETURN NULL;
+  END IF;
+
+  target_task := CASE kind
+    WHEN 'Project' THEN NULL
+    WHEN 'Task' THEN (entity->>'id')::uuid
+    WHEN 'Reminder' THEN CASE WHEN entity->>'linked_entity_type' = 'Task'
+      THEN (entity->>'linked_entity_id')::uuid END
+    ELSE (entity->>'task_id')::uuid
+  END;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(field, old_row->field), jsonb_object_agg(field, new_row->field)
+      INTO changed_from, changed_to
+      FROM jsonb_object_keys(new_row) AS field
+      WHERE field <> 'updated_at' AND new_row->field IS DISTINCT FROM old_row->field;
+    -- Nothing but the version changed
+    IF changed_to IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO activity_logs (action, entity_type, entity_id, actor_id, project_id, task_id, entity_name, old_values, new_values)
+  VALUES (
+    CASE TG_OP WHEN 'INSERT' THEN 'Create' WHEN 'UPDATE' THEN 'Update' ELSE 'Delete' END::action_type,
+    kind,
+    (entity->>'id')::uuid,
+    auth.uid(),
+    target_project,
+    target_task,
+    left(coalesce(entity->>'name', entity->>'content', entity->>'message', entity->>'url', entity->>'file_path'), 120),
+    changed_from,
+    changed_to
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER projects_log_activity
+  AFTER INSERT OR UPDATE OR DELETE ON projects
+  FOR EACH ROW EXECUTE FUNCTION log_activity('Project');
+
+CREATE TRIGGER tasks_log_activity
+  AFTER INSERT OR UPDATE OR DELETE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION log_activity('Task');
+
+CREATE TRIGGER notes_log_activity
+  AFTER INSERT OR UPDATE OR DELETE ON notes
+  FOR EACH ROW EXECUTE FUNCTION log_activity('Note');
+
+CREATE TRIGGER resources_log_activity
+  AFTER INSERT OR UPDATE OR DELETE ON resources
+  FOR EACH ROW EXECUTE FUNCTION log_activity('Resource');
+
+CREATE TRIGGER reminders_log_activity
+  AFTER INSERT OR UPDATE OR DELETE ON reminders
+  FOR EACH ROW EXECUTE FUNCTION log_activity('Reminder');
+
+-- The entity may be gone by the time its log is read, so access follows the stored project
+DROP POLICY IF EXISTS "Users can view activity in shared projects" ON activity_logs;
+
+CREATE POLICY "Users can view activity in shared projects"
+  ON activity_logs FOR SELECT TO authenticated
+  USING (can_view_project(project_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE activity_logs;
@@ -0,0 +1,35 @@
+/*
+  # Trash
+
+  1. Changes
+    - tasks, notes, resources and reminders get deleted_at. Deleting moves a row
+      to the trash by setting it; the row and everything linked to it stay in
+      place until it is restored or removed for good.
+    - purge_trash() permanently removes rows that have been in the trash for
+      30 days, which also cascades to their notes and resources. pg_cron runs
+      it every night.
+*/
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE resources ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE reminders ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS tasks_deleted_at_idx ON tasks (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS notes_deleted_at_idx ON notes (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS resources_deleted_at_idx ON resources (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS reminders_deleted_at_idx ON reminders (deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION purge_trash()
+RETURNS void AS $$
+  DELETE FROM reminders WHERE deleted_at < now() - interval '30 days';
+  DELETE FROM resources WHERE deleted_at < now() - interval '30 days';
+  DELETE FROM notes WHERE deleted_at < now() - interval '30 days';
+  DELETE FROM tasks WHERE deleted_at < now() - interval '30 days';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION purge_trash() FROM public, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-trash', '0 3 * * *', 'SELECT public.purge_trash()');
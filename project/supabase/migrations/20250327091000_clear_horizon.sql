@@ -0,0 +1,14 @@
+/*
+  # Project Dates
+
+  1. Changes
+    - projects.start_date and projects.target_date, both optional
+    - A project can't be due before it starts
+*/
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS start_date date,
+  ADD COLUMN IF NOT EXISTS target_date date;
+
+ALTER TABLE projects
+  ADD CONSTRAINT projects_dates_in_order CHECK (target_date IS NULL OR start_date IS NULL OR target_date >= start_date);